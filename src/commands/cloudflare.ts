@@ -7,7 +7,10 @@ import { promptsDirectoryExists } from "../handlers/prompts.js"
 import { resourcesDirectoryExists } from "../handlers/resources.js"
 import type { DocsServerConfig } from "../utils/config.js"
 import { CONFIG_FILENAME, loadConfig } from "../utils/config.js"
-import { sanitizePackageDirName } from "../utils/index.js"
+import { CHANGELOG_MANIFEST_FILENAME } from "../utils/history.js"
+import { isPublishedDocEntry, sanitizePackageDirName } from "../utils/index.js"
+import { assertRedirectTargets, getPublishedDocRoots, materializeVersionSnapshots, writeChangelogManifests, writePublishedConfig, writeVectorIndexes } from "../utils/snapshots.js"
+import { VECTOR_INDEX_FILENAME } from "../utils/vectors.js"
 
 export interface CloudflareOptions {
 	configPath?: string
@@ -35,6 +38,8 @@ export async function handleCloudflare(options: CloudflareOptions = {}): Promise
 	const templatePath = path.join(packageRoot, "templates", "docs.mdx")
 
 	const config = loadConfig({ configPath, templatePath, docs: options.docs })
+	await materializeVersionSnapshots(config)
+	await assertRedirectTargets(config)
 	const buildDir = await prepareBuildDirectory(config, options.outputDir)
 
 	// Always clean the target directory before building
@@ -44,6 +49,10 @@ export async function handleCloudflare(options: CloudflareOptions = {}): Promise
 	// Copy user's docs
 	await copyDocs(config, buildDir)
 
+	// Precompute search vectors for hybrid ranking, and capture the docs' change history
+	await writeVectorIndexes(config, buildDir)
+	await writeChangelogManifests(config, buildDir)
+
 	// Copy prompts directory if it exists
 	await copyPrompts(config, buildDir)
 
@@ -51,7 +60,17 @@ export async function handleCloudflare(options: CloudflareOptions = {}): Promise
 	await copyResources(config, buildDir)
 
 	// Copy config file (use the resolved configPath from above)
-	await fs.cp(configPath, path.join(buildDir, "mcp-docs-server.json"), { force: true })
+	await writePublishedConfig(config, path.join(buildDir, "mcp-docs-server.json"))
+
+	// Copy the search synonyms file if there is one
+	if (config.synonymsPath) {
+		await fs.copyFile(config.synonymsPath, path.join(buildDir, path.basename(config.synonymsPath)))
+	}
+
+	// Copy the glossary to the same place relative to the config
+	if (config.glossaryPath) {
+		await fs.cp(config.glossaryPath, path.join(buildDir, path.relative(config.rootDir, config.glossaryPath)), { recursive: true, filter: isPublishedDocEntry })
+	}
 
 	// Copy templates directory
 	await copyTemplates(packageRoot, buildDir)
@@ -102,9 +121,11 @@ async function prepareBuildDirectory(config: DocsServerConfig, outputDir?: strin
 }
 
 async function copyDocs(config: DocsServerConfig, buildDir: string): Promise<void> {
-	const targetDir = path.join(buildDir, config.docRoot.relativePath)
-	await fs.mkdir(path.dirname(targetDir), { recursive: true })
-	await fs.cp(config.docRoot.absolutePath, targetDir, { recursive: true, force: true })
+	for (const { root, targetPath } of getPublishedDocRoots(config)) {
+		const targetDir = path.join(buildDir, targetPath)
+		await fs.mkdir(path.dirname(targetDir), { recursive: true })
+		await fs.cp(root.absolutePath, targetDir, { recursive: true, force: true, filter: isPublishedDocEntry })
+	}
 }
 
 async function copySourceFiles(packageRoot: string, buildDir: string): Promise<void> {
@@ -195,9 +216,23 @@ async function generateWranglerConfig(config: DocsServerConfig, buildDir: string
 	const content = await fs.readFile(rootWranglerPath, "utf-8")
 	const rootWranglerConfig = JSON.parse(content) as Record<string, unknown>
 
+	// Bundle Markdown, search vectors, and changelog manifests from every doc root of every version, not just the default docs/ folder, and the synonyms and glossary files
+	const textGlobs = getPublishedDocRoots(config).flatMap(({ targetPath }) => [`${targetPath}/**/*.md`, `${targetPath}/**/*.mdx`, `${targetPath}/**/${VECTOR_INDEX_FILENAME}`, `${targetPath}/**/${CHANGELOG_MANIFEST_FILENAME}`])
+	if (config.synonymsPath) {
+		textGlobs.push(path.basename(config.synonymsPath))
+	}
+	if (config.glossaryPath) {
+		const glossaryPath = path.relative(config.rootDir, config.glossaryPath).split(path.sep).join("/")
+		textGlobs.push(...((await fs.stat(config.glossaryPath)).isDirectory() ? [`${glossaryPath}/**/*.md`, `${glossaryPath}/**/*.mdx`] : [glossaryPath]))
+	}
+	const rules = (rootWranglerConfig.rules as Array<{ type: string; globs: string[] }> | undefined)?.map((rule) =>
+		rule.type === "Text" ? { ...rule, globs: [...new Set([...rule.globs, ...textGlobs])] } : rule
+	)
+
 	// Merge root config with build-specific overrides
 	const wranglerConfig = {
 		...rootWranglerConfig,
+		...(rules && { rules }),
 		name: workerName,
 		main: "./src/index.ts",
 		...(accountId && { account_id: accountId })
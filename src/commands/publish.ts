@@ -7,7 +7,8 @@ import { promptsDirectoryExists } from "../handlers/prompts.js"
 import { resourcesDirectoryExists } from "../handlers/resources.js"
 import type { DocsServerConfig } from "../utils/config.js"
 import { CONFIG_FILENAME, loadConfig } from "../utils/config.js"
-import { sanitizePackageDirName } from "../utils/index.js"
+import { isPublishedDocEntry, sanitizePackageDirName } from "../utils/index.js"
+import { assertRedirectTargets, getPublishedDocRoots, materializeVersionSnapshots, writeChangelogManifests, writePublishedConfig, writeVectorIndexes } from "../utils/snapshots.js"
 
 const SCRIPT_BASENAME = "stdio.js"
 
@@ -36,6 +37,8 @@ export async function publishDocs(options: PublishOptions = {}): Promise<void> {
 	const templatePath = path.join(packageRoot, "templates", "docs.mdx")
 
 	const config = loadConfig({ configPath, templatePath, docs: options.docs })
+	await materializeVersionSnapshots(config)
+	await assertRedirectTargets(config)
 	const packageDir = await preparePackageDirectory(config, options.outputDir)
 
 	// Always clean the target directory before building
@@ -43,9 +46,13 @@ export async function publishDocs(options: PublishOptions = {}): Promise<void> {
 	await fs.mkdir(packageDir, { recursive: true })
 
 	await copyDocRoots(config, packageDir)
+	await writeVectorIndexes(config, packageDir)
+	await writeChangelogManifests(config, packageDir)
 	await copyPrompts(config, packageDir)
 	await copyResources(config, packageDir)
 	await copyConfigFile(config, packageDir)
+	await copySynonymsFile(config, packageDir)
+	await copyGlossary(config, packageDir)
 	await copyNpmrcIfPresent(config, packageDir)
 	await writeBinScript(config, packageDir)
 	await writePackageJson(config, packageDir)
@@ -78,9 +85,11 @@ async function preparePackageDirectory(config: DocsServerConfig, outputDir?: str
 }
 
 async function copyDocRoots(config: DocsServerConfig, destination: string): Promise<void> {
-	const targetDir = path.join(destination, config.docRoot.relativePath)
-	await fs.mkdir(path.dirname(targetDir), { recursive: true })
-	await fs.cp(config.docRoot.absolutePath, targetDir, { recursive: true, force: true })
+	for (const { root, targetPath } of getPublishedDocRoots(config)) {
+		const targetDir = path.join(destination, targetPath)
+		await fs.mkdir(path.dirname(targetDir), { recursive: true })
+		await fs.cp(root.absolutePath, targetDir, { recursive: true, force: true, filter: isPublishedDocEntry })
+	}
 }
 
 async function copyPrompts(config: DocsServerConfig, destination: string): Promise<void> {
@@ -100,7 +109,20 @@ async function copyResources(config: DocsServerConfig, destination: string): Pro
 }
 
 async function copyConfigFile(config: DocsServerConfig, destination: string): Promise<void> {
-	await fs.copyFile(config.configPath, path.join(destination, path.basename(config.configPath)))
+	await writePublishedConfig(config, path.join(destination, path.basename(config.configPath)))
+}
+
+async function copySynonymsFile(config: DocsServerConfig, destination: string): Promise<void> {
+	if (config.synonymsPath) {
+		await fs.copyFile(config.synonymsPath, path.join(destination, path.basename(config.synonymsPath)))
+	}
+}
+
+// The glossary keeps its place relative to the config; Markdown glossaries inside a doc root are already copied
+async function copyGlossary(config: DocsServerConfig, destination: string): Promise<void> {
+	if (config.glossaryPath) {
+		await fs.cp(config.glossaryPath, path.join(destination, path.relative(config.rootDir, config.glossaryPath)), { recursive: true, filter: isPublishedDocEntry })
+	}
 }
 
 async function copyNpmrcIfPresent(config: DocsServerConfig, destination: string): Promise<void> {
@@ -135,7 +157,13 @@ await runServer({ configPath })
 }
 
 async function writePackageJson(config: DocsServerConfig, destination: string): Promise<void> {
-	const files = new Set<string>(["bin", path.basename(config.configPath), config.docRoot.relativePath])
+	const files = new Set<string>(["bin", path.basename(config.configPath), ...getPublishedDocRoots(config).map(({ targetPath }) => targetPath)])
+	if (config.synonymsPath) {
+		files.add(path.basename(config.synonymsPath))
+	}
+	if (config.glossaryPath) {
+		files.add(path.relative(config.rootDir, config.glossaryPath).split(path.sep).join("/"))
+	}
 	// Add prompts directory if it exists
 	if (await promptsDirectoryExists(config.rootDir)) {
 		files.add("prompts")
@@ -8,6 +8,8 @@ import { registerResources } from "../handlers/resources.js"
 import { registerTools } from "../handlers/tools.js"
 import { CONFIG_FILENAME, loadConfig } from "../utils/config.js"
 import { createLogger, logger } from "../utils/logger.js"
+import { findBrokenRedirects } from "../utils/paths.js"
+import { materializeVersionSnapshots } from "../utils/snapshots.js"
 
 export interface RunServerOptions {
 	configPath?: string
@@ -32,10 +34,17 @@ export async function runServer(options: RunServerOptions = {}): Promise<void> {
 	const templatePath = path.join(packageRoot, "templates", "docs.mdx")
 
 	const config = loadConfig({ configPath, templatePath, docs: options.docs })
+	await materializeVersionSnapshots(config)
 	// Note: Don't use console.info/log here - stdout is reserved for JSON-RPC in stdio mode
 	// Use console.error for any debug output (writes to stderr)
 	console.error(`[mcp-docs-server] Config: ${configPath}`)
-	console.error(`[mcp-docs-server] Docs: ${config.docRoot.absolutePath}`)
+	console.error(`[mcp-docs-server] Docs: ${config.docRoots.map((root) => root.absolutePath).join(", ")}`)
+	if (config.versions) {
+		console.error(`[mcp-docs-server] Versions: ${config.versions.map((version) => version.name).join(", ")}`)
+	}
+	for (const { from, to } of await findBrokenRedirects(config)) {
+		console.error(`[mcp-docs-server] Redirect target not found: "${from}" -> "${to}"`)
+	}
 	const server = await createServer(config)
 
 	try {
@@ -1,8 +1,27 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { createChangesTool } from "../tools/changes.js"
 import { createDocsTool } from "../tools/docs.js"
+import { createExamplesTool } from "../tools/examples.js"
+import { createGlossaryTool } from "../tools/glossary.js"
+import { createSearchTool } from "../tools/search.js"
 import type { DocsServerConfig } from "../utils/config.js"
 
 export async function registerTools(server: McpServer, config: DocsServerConfig): Promise<void> {
 	const tool = await createDocsTool(config)
 	server.registerTool(tool.name, tool.config, tool.cb)
+
+	const searchTool = await createSearchTool(config)
+	server.registerTool(searchTool.name, searchTool.config, searchTool.cb)
+
+	const examplesTool = await createExamplesTool(config)
+	server.registerTool(examplesTool.name, examplesTool.config, examplesTool.cb)
+
+	const changesTool = await createChangesTool(config)
+	server.registerTool(changesTool.name, changesTool.config, changesTool.cb)
+
+	// Only configs with a glossary get the glossary tool
+	if (config.glossaryPath) {
+		const glossaryTool = await createGlossaryTool(config)
+		server.registerTool(glossaryTool.name, glossaryTool.config, glossaryTool.cb)
+	}
 }
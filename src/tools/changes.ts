@@ -0,0 +1,135 @@
+import type { ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js"
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js"
+import { z } from "zod"
+
+import type { DocsServerConfig } from "../utils/config.js"
+import { getLocaleConfig, getVersionConfig } from "../utils/config.js"
+import type { DocHistory, SectionChange } from "../utils/history.js"
+import { findChangesSince, loadDocHistory } from "../utils/history.js"
+import { logger } from "../utils/logger.js"
+import { formatFrontmatter } from "../utils/markdown.js"
+import { qualifyPath } from "../utils/paths.js"
+import { getSnapshotGitSource } from "../utils/snapshots.js"
+
+const DEFAULT_CHANGES_LIMIT = 20
+const MAX_CHANGES_LIMIT = 100
+// Sections listed per document; the rest are counted
+const MAX_SECTIONS_PER_DOCUMENT = 10
+
+export async function createChangesTool(config: DocsServerConfig) {
+	const versionNames = config.versions?.map((version) => version.name)
+	const changesParameters = z.object({
+		since: z
+			.string()
+			.min(1)
+			.describe(
+				`Starting point: an ISO 8601 date or date-time (for example "2024-05-01"), a git tag, or a documentation version${versionNames ? ` (${versionNames.map((name) => `"${name}"`).join(", ")})` : ""} read from a tag. Only changes made after it are returned.`
+			),
+		limit: z
+			.number()
+			.int()
+			.min(1)
+			.max(MAX_CHANGES_LIMIT)
+			.optional()
+			.describe(`Maximum number of documents to return (default ${DEFAULT_CHANGES_LIMIT}, max ${MAX_CHANGES_LIMIT}).`),
+		...(versionNames
+			? {
+					version: z
+						.enum(versionNames as [string, ...string[]])
+						.optional()
+						.describe(`Documentation version whose history to read (default "${versionNames[0]}", the latest).`)
+				}
+			: {}),
+		...(config.locales
+			? {
+					locale: z
+						.enum(config.locales as [string, ...string[]])
+						.optional()
+						.describe(`Documentation locale whose history to read (default "${config.defaultLocale}").`)
+				}
+			: {})
+	})
+	const toolName = config.changesTool
+
+	const callback: ToolCallback<typeof changesParameters> = async (args, _extra) => {
+		void logger.debug(`Executing ${toolName} tool`, { args })
+		const versionConfig = getVersionConfig(config, typeof args.version === "string" ? args.version : undefined)
+		const scopedConfig = getLocaleConfig(versionConfig, typeof args.locale === "string" ? args.locale : undefined)
+		const histories = await Promise.all(
+			scopedConfig.docRoots.map(async (root) => ({ root, history: await loadDocHistory(root.absolutePath, getSnapshotGitSource(config, root.absolutePath)) }))
+		)
+
+		const since = resolveSince(args.since, config, histories.map(({ history }) => history))
+		if (!since) {
+			return {
+				content: [
+					{
+						type: "text" as const,
+						text: `${formatFrontmatter({ since: args.since, results: 0 })}\n\n"${args.since}" is not a date, a git tag, or a version read from a tag. Pass an ISO 8601 date such as "2024-05-01".`
+					}
+				]
+			} satisfies CallToolResult
+		}
+
+		const changed = histories
+			.flatMap(({ root, history }) => findChangesSince(history, since).map((document) => ({ ...document, path: qualifyPath(scopedConfig, root, document.path) })))
+			.sort((a, b) => Date.parse(b.date) - Date.parse(a.date) || a.path.localeCompare(b.path))
+			.slice(0, args.limit ?? DEFAULT_CHANGES_LIMIT)
+
+		if (changed.length === 0) {
+			const frontmatterStr = formatFrontmatter({ since: since.toISOString(), results: 0 })
+			return {
+				content: [{ type: "text" as const, text: `${frontmatterStr}\n\nNo documents changed since ${since.toISOString()}.` }]
+			} satisfies CallToolResult
+		}
+
+		// Return each changed document as a separate content item with frontmatter, most recently changed first
+		const contentItems = changed.map((document) => {
+			const frontmatterStr = formatFrontmatter({
+				path: document.path,
+				title: document.title,
+				changed: document.date,
+				commits: document.commits || undefined
+			})
+			return {
+				type: "text" as const,
+				text: `${frontmatterStr}\n\n${formatSections(document.path, document.sections)}`
+			}
+		})
+
+		return {
+			content: contentItems
+		} satisfies CallToolResult
+	}
+
+	const toolDescription = `Lists the ${config.name} documentation pages changed since a date, git tag, or version, with a short summary of each changed section. Use it to answer "what's new" questions, then read the pages or sections with the \`${config.tool}\` tool.\n\nOutput format: Returns an array of text content items, most recently changed first, each with YAML frontmatter followed by body. Frontmatter includes: path, title (when the page declares one), changed (ISO 8601 date of the latest change), and commits (when history comes from git). Body lists the added, changed, and removed sections with their anchors and the first sentence of their text.`
+
+	return {
+		name: toolName,
+		config: {
+			description: toolDescription,
+			inputSchema: changesParameters
+		},
+		cb: callback
+	}
+}
+
+// Versions read from a tag start at the tag's commit; anything else must be a tag or a parsable date
+function resolveSince(since: string, config: DocsServerConfig, histories: DocHistory[]): Date | null {
+	const tag = config.versions?.find((version) => version.name === since)?.tag ?? since
+	const tagDate = histories.map((history) => history.tags[tag]).find(Boolean)
+	const timestamp = Date.parse(tagDate ?? since)
+	return Number.isNaN(timestamp) ? null : new Date(timestamp)
+}
+
+function formatSections(displayPath: string, sections: SectionChange[]): string {
+	const lines = sections.slice(0, MAX_SECTIONS_PER_DOCUMENT).map((section) => {
+		const anchor = section.slug && section.status !== "removed" ? `, \`${displayPath}#${section.slug}\`` : ""
+		const summary = section.summary ? `: ${section.summary}` : ""
+		return `- **${section.heading ?? "Introduction"}** (${section.status}${anchor})${summary}`
+	})
+	if (sections.length > MAX_SECTIONS_PER_DOCUMENT) {
+		lines.push(`- …and ${sections.length - MAX_SECTIONS_PER_DOCUMENT} more sections`)
+	}
+	return lines.length > 0 ? lines.join("\n") : "Only formatting or metadata changed."
+}
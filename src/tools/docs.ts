@@ -2,59 +2,235 @@ import fs from "node:fs/promises"
 import path from "node:path"
 import type { ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js"
 import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js"
-import { stringify } from "yaml"
 import { z } from "zod"
 
-import type { DocRoot, DocsServerConfig } from "../utils/config.js"
-import { getMatchingPaths, normalizeDocPath } from "../utils/index.js"
+import type { DocRoot, DocsServerConfig, FeaturedSection } from "../utils/config.js"
+import { getLocaleConfig, getVersionConfig } from "../utils/config.js"
+import type { PageOptions } from "../utils/index.js"
+import {
+	estimateTokens,
+	expandIncludes,
+	findClosestPaths,
+	getMatchingPaths,
+	isExcludedEntry,
+	isMarkdownFile,
+	isMdxFile,
+	loadDocMetadata,
+	loadLinkGraph,
+	loadSearchIndex,
+	normalizeDocPath,
+	paginateContent,
+	resolveDocLink,
+	toSearchRoots,
+	walkMdFiles
+} from "../utils/index.js"
 import { logger } from "../utils/logger.js"
-
-type FileContent = {
-	type: "file"
+import type { ResolvedDocPath } from "../utils/paths.js"
+import { findRedirect, hasTraversal, qualifyPath, resolveDocPath, splitAnchor } from "../utils/paths.js"
+import { extractHeadings, extractOutline, extractSection, formatFrontmatter, renderMdxToMarkdown, rewriteLinks, splitFrontmatter } from "../utils/markdown.js"
+
+// Result shapes double as the tool's outputSchema, so clients get them as structuredContent too
+const DocListingSchema = z.object({
+	path: z.string(),
+	title: z.string().optional(),
+	description: z.string().optional()
+})
+
+interface DirectoryTreeNode {
 	path: string
-	content: string
+	// Markdown files anywhere below this folder, including ones not shown
+	fileCount: number
+	files: DocListing[]
+	subdirectories: DirectoryTreeNode[]
+	// Set when the folder has entries that were not expanded (depth or entry cap)
+	truncated?: boolean
 }
 
-type DirectoryContent = {
-	type: "directory"
-	path: string
-	subdirectories: string[]
-	files: string[]
-	suggestions?: string
-}
+const DirectoryTreeNodeSchema: z.ZodType<DirectoryTreeNode> = z.lazy(() =>
+	z.object({
+		path: z.string(),
+		fileCount: z.number(),
+		files: z.array(DocListingSchema),
+		subdirectories: z.array(DirectoryTreeNodeSchema),
+		truncated: z.boolean().optional()
+	})
+)
 
-type ErrorContent = {
-	type: "error"
-	path: string
-	error: string
-	suggestions?: string
+// Locale a result was read from, plus the requested locale when the page fell back to the default one
+const LocaleFields = {
+	locale: z.string().optional(),
+	requestedLocale: z.string().optional()
 }
 
-type DocResult = FileContent | DirectoryContent | ErrorContent
-
-type ReadMdResult = { found: true; result: FileContent | DirectoryContent; isSecurityViolation: boolean } | { found: false; isSecurityViolation: boolean }
-
-interface ResolvedDocPath {
-	absolutePath: string
-	relativePath: string
-}
+const PageInfoSchema = z.object({
+	unit: z.enum(["lines", "characters"]),
+	totalLines: z.number(),
+	totalCharacters: z.number(),
+	// Half-open range [start, end) in the requested unit
+	start: z.number(),
+	end: z.number(),
+	nextOffset: z.number().optional()
+})
+
+const FileContentSchema = z.object({
+	type: z.literal("file"),
+	path: z.string(),
+	content: z.string(),
+	// Set when the requested path was corrected (extension, case, or index.md) or redirected
+	resolvedPath: z.string().optional(),
+	// The redirect source matched when the requested path has moved
+	movedFrom: z.string().optional(),
+	// The document's own frontmatter, merged into the response frontmatter
+	metadata: z.record(z.unknown()).optional(),
+	section: z.string().optional(),
+	page: PageInfoSchema.optional(),
+	// Documents this one links to and documents linking here, as doc-root-relative paths
+	linksTo: z.array(z.string()).optional(),
+	linkedFrom: z.array(z.string()).optional(),
+	...LocaleFields
+})
+
+const OutlineContentSchema = z.object({
+	type: z.literal("outline"),
+	path: z.string(),
+	resolvedPath: z.string().optional(),
+	movedFrom: z.string().optional(),
+	metadata: z.record(z.unknown()).optional(),
+	section: z.string().optional(),
+	// Line numbers are relative to the body, matching offset/limit in lines
+	headings: z.array(
+		z.object({
+			level: z.number(),
+			text: z.string(),
+			slug: z.string(),
+			line: z.number(),
+			lines: z.number(),
+			characters: z.number()
+		})
+	),
+	totalLines: z.number(),
+	...LocaleFields
+})
+
+const DirectoryContentSchema = z.object({
+	type: z.literal("directory"),
+	path: z.string(),
+	resolvedPath: z.string().optional(),
+	movedFrom: z.string().optional(),
+	subdirectories: z.array(z.string()),
+	files: z.array(DocListingSchema),
+	// Nested outline of the subdirectories, present when depth > 1
+	tree: z.array(DirectoryTreeNodeSchema).optional(),
+	// Set when the tree leaves out subdirectories because of the entry cap
+	truncated: z.boolean().optional(),
+	suggestions: z.string().optional(),
+	...LocaleFields
+})
+
+const ErrorContentSchema = z.object({
+	type: z.literal("error"),
+	path: z.string(),
+	error: z.string(),
+	suggestions: z.string().optional(),
+	// Closest existing paths by edit distance, separate from keyword suggestions
+	didYouMean: z.array(z.string()).optional(),
+	// Other versions in which the path exists, when it is missing from the requested one
+	otherVersions: z.array(z.string()).optional(),
+	anchors: z.array(z.string()).optional()
+})
+
+const OmittedContentSchema = z.object({
+	type: z.literal("omitted"),
+	path: z.string(),
+	estimatedTokens: z.number(),
+	characters: z.number()
+})
+
+const DocResultSchema = z.discriminatedUnion("type", [FileContentSchema, OutlineContentSchema, DirectoryContentSchema, ErrorContentSchema, OmittedContentSchema])
+
+type FileContent = z.infer<typeof FileContentSchema>
+type OutlineContent = z.infer<typeof OutlineContentSchema>
+type DirectoryContent = z.infer<typeof DirectoryContentSchema>
+type ErrorContent = z.infer<typeof ErrorContentSchema>
+type OmittedContent = z.infer<typeof OmittedContentSchema>
+type DocResult = z.infer<typeof DocResultSchema>
+type DocListing = z.infer<typeof DocListingSchema>
+
+type DocRequest = { path: string; renderMdx?: boolean; depth?: number; mode?: DocMode } & Pick<PageOptions, "offset" | "limit" | "unit">
+
+type DocMode = "content" | "outline"
+
+type ReadMdResult = { found: true; result: FileContent | OutlineContent | DirectoryContent | ErrorContent; isSecurityViolation: boolean } | { found: false; isSecurityViolation: boolean }
+
+const MAX_TREE_DEPTH = 10
+const MAX_TREE_ENTRIES = 200
+// Top-level listings stop at this many characters so the tool description stays bounded
+const MAX_LISTING_LENGTH = 4000
 
 interface TopLevelEntries {
 	directories: string[]
-	referenceSubdirectories: string[]
-	files: string[]
+	// Indented listing lines for the configured featured sections
+	featured: string[]
+	files: DocListing[]
 }
 
 export async function createDocsTool(config: DocsServerConfig) {
-	const pathsDescription = await buildPathsDescription(config.docRoot, config)
+	const defaultConfig = getLocaleConfig(config, undefined)
+	// Build the search indexes up front so the first request doesn't pay for them
+	await Promise.all(defaultConfig.docRoots.map((root) => loadSearchIndex(root.absolutePath)))
+	const pathsDescription = await buildPathsDescription(defaultConfig)
+	const versionNames = config.versions?.map((version) => version.name)
 	const docsParameters = z.object({
-		paths: z.array(z.string()).min(1).describe(pathsDescription),
+		paths: z
+			.array(
+				z.union([
+					z.string(),
+					z.object({
+						path: z.string().describe("Documentation path to fetch"),
+						offset: z.number().int().min(0).optional().describe("Number of lines (or characters) to skip; use nextOffset from a previous response, with the unit of its returnedRange"),
+						limit: z.number().int().min(1).optional().describe("Maximum number of lines (or characters) to return"),
+						unit: z.enum(["lines", "characters"]).optional().describe('Unit for offset and limit (default "lines")')
+					})
+				])
+			)
+			.min(1)
+			.describe(pathsDescription),
 		queryKeywords: z
 			.array(z.string())
 			.optional()
 			.describe(
-				"Keywords from user query to use for matching documentation. Each keyword should be a single word or short phrase; whitespace-separated keywords will be split automatically."
-			)
+				"Keywords from user query to use for matching documentation. Each keyword should be a single word or short phrase; whitespace-separated keywords will be split automatically unless wrapped in double quotes, which match the words only next to each other (\"rate limit\")."
+			),
+		maxTokens: z
+			.number()
+			.int()
+			.min(1)
+			.optional()
+			.describe("Approximate token budget for the whole response. Documents that don't fit are returned as omitted entries with their sizes."),
+		renderMdx: z
+			.boolean()
+			.optional()
+			.describe("Return .mdx documents as plain Markdown, with imports, exports, expressions, and JSX component tags stripped"),
+		depth: z
+			.number()
+			.int()
+			.min(1)
+			.max(MAX_TREE_DEPTH)
+			.optional()
+			.describe(
+				`Directory listing depth. 1 (default) lists immediate entries only; higher values return a nested tree with file counts per folder, capped at ${MAX_TREE_ENTRIES} entries.`
+			),
+		mode: z
+			.enum(["content", "outline"])
+			.optional()
+			.describe(
+				'"content" (default) returns file contents; "outline" returns each file\'s headings with level, anchor, line number, and approximate section size, so a single section can be fetched next'
+			),
+		...(versionNames ? { version: createVersionParameter(versionNames) } : {}),
+		...(config.locales && config.defaultLocale ? { locale: createLocaleParameter(config.locales, config.defaultLocale) } : {})
+	})
+	const docsOutput = z.object({
+		results: z.array(DocResultSchema).describe("One entry per requested path, in request order, mirroring the text content items")
 	})
 	const toolName = config.tool
 
@@ -62,13 +238,21 @@ export async function createDocsTool(config: DocsServerConfig) {
 	const callback: ToolCallback<typeof docsParameters> = async (args, _extra) => {
 		void logger.debug(`Executing ${toolName} tool`, { args })
 		const queryKeywords = args.queryKeywords ?? []
-		const docRoot = config.docRoot.absolutePath
-		const availablePaths = await buildAvailablePaths(config)
+		// Everything below reads the requested version's roots; without a version that is the latest one
+		const requestedVersion = typeof args.version === "string" ? args.version : undefined
+		const versionConfig = getVersionConfig(config, requestedVersion)
+		const requestedLocale = typeof args.locale === "string" ? args.locale : undefined
+		// Listings and suggestions come from the requested locale; pages fall back to the default one
+		const localeConfig = getLocaleConfig(versionConfig, requestedLocale)
+		const searchRoots = toSearchRoots(localeConfig.docRoots)
+		const availablePaths = await buildAvailablePaths(localeConfig)
 
 		const results: DocResult[] = await Promise.all(
-			args.paths.map(async (docPath: string): Promise<DocResult> => {
+			args.paths.map(async (entry): Promise<DocResult> => {
+				const request: DocRequest = { ...(typeof entry === "string" ? { path: entry } : entry), renderMdx: args.renderMdx, depth: args.depth, mode: args.mode }
+				const docPath = request.path
 				try {
-					const result = await readMdContent(docPath, queryKeywords, config)
+					const result = await readLocalizedContent(request, queryKeywords, versionConfig, requestedLocale)
 					if (result.found) {
 						return result.result
 					}
@@ -79,13 +263,24 @@ export async function createDocsTool(config: DocsServerConfig) {
 							error: "Invalid path"
 						}
 					}
-					const suggestions = await getMatchingPaths(docPath, queryKeywords, [docRoot])
-					const errorMessage = `Path "${docPath}" not found.`
+					const suggestions = await getMatchingPaths(docPath, queryKeywords, searchRoots)
+					const knownPaths = await Promise.all(
+						localeConfig.docRoots.map(async (root) =>
+							(await loadSearchIndex(root.absolutePath)).documents.map((document) => qualifyPath(localeConfig, root, document.path))
+						)
+					)
+					const didYouMean = findClosestPaths(docPath, knownPaths.flat())
+					const otherVersions = await findOtherVersions(splitAnchor(docPath).filePath, config, requestedVersion, requestedLocale)
+					const versionLabel = config.versions ? ` in version "${requestedVersion ?? config.versions[0].name}"` : ""
+					const versionHint = otherVersions.length > 0 ? ` It exists in ${otherVersions.map((name) => `"${name}"`).join(", ")}; pass version to read it there.` : ""
+					const errorMessage = `Path "${docPath}" not found${versionLabel}.${versionHint}`
 					return {
 						type: "error",
 						path: docPath,
 						error: errorMessage,
-						suggestions: suggestions || undefined
+						suggestions: suggestions || undefined,
+						didYouMean: didYouMean.length > 0 ? didYouMean : undefined,
+						otherVersions: nonEmpty(otherVersions)
 					}
 				} catch (error) {
 					await logger.warning(`Failed to read content for path: ${docPath}`, error)
@@ -98,77 +293,37 @@ export async function createDocsTool(config: DocsServerConfig) {
 			})
 		)
 
-		// Return each result as a separate content item with frontmatter
-		const contentItems = results.map((result) => {
-			const frontmatter: Record<string, unknown> = {
-				path: result.path
-			}
-
-			if (result.type === "error") {
-				frontmatter.error = result.error
-				// availablePaths and suggestions are in the body, not frontmatter
-				const frontmatterStr = formatFrontmatter(frontmatter)
-
-				// Build error body with error message, available paths, and suggestions
-				const errorBodyLines: string[] = []
-				errorBodyLines.push(result.error)
-
-				// Only include availablePaths and suggestions for non-security violations
-				// Security violations (Invalid path) should not expose available paths
-				if (result.error !== "Invalid path") {
-					if (availablePaths) {
-						errorBodyLines.push("")
-						errorBodyLines.push(availablePaths)
-					}
-
-					if (result.suggestions) {
-						errorBodyLines.push("")
-						errorBodyLines.push(result.suggestions)
-					}
-				}
-
-				return {
-					type: "text" as const,
-					text: `${frontmatterStr}\n\n${errorBodyLines.join("\n")}`
-				}
-			}
-
-			if (result.type === "file") {
-				const frontmatterStr = formatFrontmatter(frontmatter)
-				return {
-					type: "text" as const,
-					text: `${frontmatterStr}\n\n${result.content}`
-				}
-			}
-
-			// Directory
-			if (result.suggestions) {
-				frontmatter.suggestions = result.suggestions
-			}
-			const frontmatterStr = formatFrontmatter(frontmatter)
+		// Render each result, then drop whole documents that don't fit the token budget
+		const maxTokens = args.maxTokens ?? config.maxTokens
+		const renderedResults = applyTokenBudget(
+			results.map((result) => ({ result, text: formatDocResult(result, availablePaths) })),
+			maxTokens
+		)
 
-			const directoryBody = formatDirectoryContent(result)
-			return {
-				type: "text" as const,
-				text: `${frontmatterStr}\n\n${directoryBody}`
-			}
-		})
+		// Return each result as a separate content item with frontmatter
+		const contentItems = renderedResults.map(({ text }) => ({
+			type: "text" as const,
+			text
+		}))
 
 		return {
-			content: contentItems
+			content: contentItems,
+			structuredContent: { results: renderedResults.map(({ result }) => result) }
 		} satisfies CallToolResult
 	}
 
-	// Output format: Returns an array of text content items, each with YAML frontmatter followed by body.
-	// Frontmatter includes: path (required), error (for errors), suggestions (for directories).
-	// Body contains file content, directory listing, or error details with availablePaths and suggestions.
-	const toolDescription = `${config.description}\n\nOutput format: Returns an array of text content items, each with YAML frontmatter followed by body. Frontmatter includes: path (required), error (for errors), suggestions (for directories). Body contains file content, directory listing, or error details with availablePaths and suggestions.`
+	// Output format: Returns structuredContent with a results array (one typed entry per path: file, outline, directory, error, or omitted) and the same results as an array of text content items, each with YAML frontmatter followed by body.
+	// Frontmatter includes: path (required), the document's own frontmatter (title, description, ...), resolvedPath, movedFrom (for redirects), section (for anchored paths), linksTo/linkedFrom, locale/requestedLocale, totalLines/returnedRange/nextOffset (for partial reads),
+	// mode/headings (for outlines), omitted/estimatedTokens (for results over the token budget), error/didYouMean (for errors), suggestions and truncated (for directories).
+	// Body contains file content, heading outline, directory listing, or error details with availablePaths and suggestions.
+	const toolDescription = `${config.description}\n\nOutput format: Returns an array of text content items, each with YAML frontmatter followed by body. Frontmatter includes: path (required), the document's own frontmatter fields such as title and description, resolvedPath (when the requested path was corrected or redirected), movedFrom (the old path, when the page has moved), section (for anchored paths), linksTo and linkedFrom (related documents), locale and requestedLocale (requestedLocale only when a missing translation fell back to the default locale), totalLines, returnedRange and nextOffset (for partial reads; pass nextOffset as offset to continue), mode and headings (for outlines), omitted and estimatedTokens (for results left out to stay within maxTokens), error, didYouMean and otherVersions (for errors), suggestions and truncated (for directories; truncated when a tree leaves folders out). Body contains file content, a heading outline (in outline mode), directory listing (a nested tree with file counts when depth > 1), or error details with availablePaths and suggestions (or the file's available anchors when an anchor is unknown).`
 
 	return {
 		name: toolName,
 		config: {
 			description: toolDescription,
-			inputSchema: docsParameters
+			inputSchema: docsParameters,
+			outputSchema: docsOutput
 		},
 		// The callback is properly typed as ToolCallback<typeof docsParameters>
 		// Type assertion bridges Zod's types with MCP SDK's expected callback type
@@ -176,57 +331,257 @@ export async function createDocsTool(config: DocsServerConfig) {
 	}
 }
 
-async function buildPathsDescription(docRoot: DocRoot, config: DocsServerConfig): Promise<string> {
-	const { directories, referenceSubdirectories, files } = await collectTopLevelEntries(docRoot, config)
-	const lines: string[] = ["One or more documentation paths to fetch", "Available paths:", "Available top-level paths:"]
+function createLocaleParameter(locales: string[], defaultLocale: string) {
+	return z
+		.enum(locales as [string, ...string[]])
+		.optional()
+		.describe(`Documentation locale to read (default "${defaultLocale}"). Pages without a translation fall back to "${defaultLocale}", reported as requestedLocale in the response.`)
+}
 
-	if (directories.length > 0) {
-		lines.push("Directories:", ...directories.map((dir) => `- ${dir}`))
-	} else {
-		lines.push("Directories:", "- (none)")
+function createVersionParameter(versionNames: string[]) {
+	return z
+		.enum(versionNames as [string, ...string[]])
+		.optional()
+		.describe(`Documentation version to read (default "${versionNames[0]}", the latest). Paths, listings, and suggestions all come from this version.`)
+}
+
+// Names of the versions, other than the one searched, in which a missing path resolves to a file or directory
+async function findOtherVersions(filePath: string, config: DocsServerConfig, searchedVersion: string | undefined, locale: string | undefined): Promise<string[]> {
+	const searched = searchedVersion ?? config.versions?.[0].name
+	const names: string[] = []
+	for (const version of config.versions ?? []) {
+		if (version.name === searched) {
+			continue
+		}
+		const versionConfig = getVersionConfig(config, version.name)
+		for (const candidateLocale of new Set([locale, config.defaultLocale])) {
+			const { resolved } = await resolveDocPath(filePath, getLocaleConfig(versionConfig, candidateLocale)).catch(() => ({ resolved: null }))
+			if (resolved) {
+				names.push(version.name)
+				break
+			}
+		}
 	}
+	return names
+}
 
-	if (referenceSubdirectories.length > 0) {
-		lines.push("Reference subdirectories:", ...referenceSubdirectories.map((ref) => `- ${ref}`))
+function formatDocResult(result: DocResult, availablePaths: string): string {
+	const frontmatter: Record<string, unknown> = {
+		path: result.path
 	}
 
-	if (files.length > 0) {
-		lines.push("Files:", ...files.map((file) => `- ${file}`))
-	} else {
-		lines.push("Files:", "- (none)")
+	if (result.type === "error") {
+		frontmatter.error = result.error
+		frontmatter.didYouMean = result.didYouMean
+		frontmatter.otherVersions = result.otherVersions
+		// availablePaths and suggestions are in the body, not frontmatter
+		const frontmatterStr = formatFrontmatter(frontmatter)
+
+		// Build error body with error message, available paths, and suggestions
+		const errorBodyLines: string[] = []
+		errorBodyLines.push(result.error)
+
+		// Anchor errors list the file's headings instead of the top-level paths
+		if (result.anchors) {
+			errorBodyLines.push("")
+			errorBodyLines.push("Available anchors:")
+			errorBodyLines.push(...(result.anchors.length > 0 ? result.anchors.map((anchor) => `- ${anchor}`) : ["- (none)"]))
+		} else if (result.error !== "Invalid path") {
+			// Only include availablePaths and suggestions for non-security violations
+			// Security violations (Invalid path) should not expose available paths
+			if (availablePaths) {
+				errorBodyLines.push("")
+				errorBodyLines.push(availablePaths)
+			}
+
+			if (result.suggestions) {
+				errorBodyLines.push("")
+				errorBodyLines.push(result.suggestions)
+			}
+		}
+
+		return `${frontmatterStr}\n\n${errorBodyLines.join("\n")}`
 	}
 
-	return lines.join("\n")
+	if (result.type === "omitted") {
+		frontmatter.omitted = "budget"
+		frontmatter.estimatedTokens = result.estimatedTokens
+		frontmatter.characters = result.characters
+		const frontmatterStr = formatFrontmatter(frontmatter)
+		return `${frontmatterStr}\n\nOmitted due to token budget (${result.estimatedTokens} estimated tokens). Request this path on its own, with a larger maxTokens, or with offset/limit to read it.`
+	}
+
+	if (result.type === "outline") {
+		mergeDocMetadata(frontmatter, result.metadata)
+		frontmatter.resolvedPath = result.resolvedPath
+		frontmatter.movedFrom = result.movedFrom
+		frontmatter.section = result.section
+		frontmatter.mode = "outline"
+		frontmatter.locale = result.locale
+		frontmatter.requestedLocale = result.requestedLocale
+		frontmatter.headings = result.headings.length
+		frontmatter.totalLines = result.totalLines
+		const frontmatterStr = formatFrontmatter(frontmatter)
+		return `${frontmatterStr}\n\n${formatOutline(result)}`
+	}
+
+	if (result.type === "file") {
+		mergeDocMetadata(frontmatter, result.metadata)
+		frontmatter.resolvedPath = result.resolvedPath
+		frontmatter.movedFrom = result.movedFrom
+		frontmatter.section = result.section
+		frontmatter.linksTo = result.linksTo
+		frontmatter.linkedFrom = result.linkedFrom
+		frontmatter.locale = result.locale
+		frontmatter.requestedLocale = result.requestedLocale
+		if (result.page) {
+			frontmatter.totalLines = result.page.totalLines
+			if (result.page.unit === "characters") {
+				frontmatter.totalCharacters = result.page.totalCharacters
+			}
+			frontmatter.returnedRange = { unit: result.page.unit, start: result.page.start, end: result.page.end }
+			frontmatter.nextOffset = result.page.nextOffset
+		}
+		const frontmatterStr = formatFrontmatter(frontmatter)
+		return `${frontmatterStr}\n\n${result.content}`
+	}
+
+	// Directory
+	frontmatter.resolvedPath = result.resolvedPath
+	frontmatter.movedFrom = result.movedFrom
+	frontmatter.locale = result.locale
+	frontmatter.requestedLocale = result.requestedLocale
+	frontmatter.truncated = result.truncated
+	if (result.suggestions) {
+		frontmatter.suggestions = result.suggestions
+	}
+	const frontmatterStr = formatFrontmatter(frontmatter)
+
+	const directoryBody = formatDirectoryContent(result)
+	return `${frontmatterStr}\n\n${directoryBody}`
 }
 
-async function buildAvailablePaths(config: DocsServerConfig): Promise<string> {
-	const { directories, referenceSubdirectories, files } = await collectTopLevelEntries(config.docRoot, config)
-	const rootLabel = config.docRoot.relativePath === "." ? "documentation root" : config.docRoot.relativePath
-	const lines: string[] = [`Available top-level paths under "${rootLabel}":`, ""]
+// Keys the server writes for files and outlines; a document's own value for one of them is left out, even where the server has none
+const RESERVED_FRONTMATTER_KEYS = new Set([
+	"path",
+	"resolvedPath",
+	"movedFrom",
+	"section",
+	"mode",
+	"headings",
+	"linksTo",
+	"linkedFrom",
+	"locale",
+	"requestedLocale",
+	"totalLines",
+	"totalCharacters",
+	"returnedRange",
+	"nextOffset"
+])
+
+function mergeDocMetadata(frontmatter: Record<string, unknown>, metadata: Record<string, unknown> | undefined): void {
+	for (const [key, value] of Object.entries(metadata ?? {})) {
+		if (!RESERVED_FRONTMATTER_KEYS.has(key)) {
+			frontmatter[key] = value
+		}
+	}
+}
 
-	lines.push("Directories:")
-	if (directories.length > 0) {
-		lines.push(...directories.map((dir) => `- ${dir}`))
-	} else {
-		lines.push("- (none)")
+function formatOutline(result: OutlineContent): string {
+	if (result.headings.length === 0) {
+		return "No headings found."
 	}
 
-	if (referenceSubdirectories.length > 0) {
-		lines.push("", "Reference subdirectories:", ...referenceSubdirectories.map((ref) => `- ${ref}`))
+	const baseLevel = Math.min(...result.headings.map((heading) => heading.level))
+	const filePath = result.resolvedPath ?? splitAnchor(result.path).filePath
+	return result.headings
+		.map((heading) => {
+			const indent = "  ".repeat(heading.level - baseLevel)
+			const size = `${heading.lines} ${heading.lines === 1 ? "line" : "lines"}, ${heading.characters} characters`
+			return `${indent}- ${"#".repeat(heading.level)} ${heading.text} — ${filePath}#${heading.slug} (line ${heading.line}, ${size})`
+		})
+		.join("\n")
+}
+
+function applyTokenBudget(rendered: Array<{ result: DocResult; text: string }>, maxTokens: number | undefined): Array<{ result: DocResult; text: string }> {
+	if (maxTokens === undefined) {
+		return rendered
 	}
 
-	lines.push("", "Files:")
-	if (files.length > 0) {
-		lines.push(...files.map((file) => `- ${file}`))
-	} else {
-		lines.push("- (none)")
+	let usedTokens = 0
+	return rendered.map((item) => {
+		const estimatedTokens = estimateTokens(item.text)
+		// Keep whole documents in request order, skipping those that don't fit; the stubs left in their place count too
+		if (usedTokens + estimatedTokens <= maxTokens) {
+			usedTokens += estimatedTokens
+			return item
+		}
+
+		const omitted: OmittedContent = {
+			type: "omitted",
+			path: item.result.path,
+			estimatedTokens,
+			characters: item.text.length
+		}
+		const text = formatDocResult(omitted, "")
+		usedTokens += estimateTokens(text)
+		return { result: omitted, text }
+	})
+}
+
+async function buildPathsDescription(config: DocsServerConfig): Promise<string> {
+	const sections = await buildTopLevelListing(config)
+	const lines: string[] = ["One or more documentation paths to fetch (append #heading-anchor to a file path to fetch just that section)", "Available paths:", "Available top-level paths:"]
+	for (const section of sections) {
+		lines.push(section.heading, ...section.lines)
 	}
+	return lines.join("\n")
+}
 
+async function buildAvailablePaths(config: DocsServerConfig): Promise<string> {
+	const sections = await buildTopLevelListing(config)
+	const rootLabels = config.docRoots.map((root) => `"${root.relativePath === "." ? "documentation root" : root.relativePath}"`)
+	const lines: string[] = [`Available top-level paths under ${rootLabels.join(", ")}:`]
+	for (const section of sections) {
+		lines.push("", section.heading, ...section.lines)
+	}
 	return lines.join("\n").trim()
 }
 
-async function readMdContent(docPath: string, queryKeywords: string[], config: DocsServerConfig): Promise<ReadMdResult> {
-	const { isSecurityViolation, resolved, rootPrefix } = await resolveDocPath(docPath, config)
+// Directories, featured sections and files, cut to one length budget
+async function buildTopLevelListing(config: DocsServerConfig): Promise<Array<{ heading: string; lines: string[] }>> {
+	const { directories, featured, files } = await collectAllTopLevelEntries(config)
+	const sections = [
+		{ heading: "Directories:", lines: directories.length > 0 ? directories.map((dir) => `- ${dir}`) : ["- (none)"] },
+		...(featured.length > 0 ? [{ heading: "Featured sections:", lines: featured }] : []),
+		{ heading: "Files:", lines: files.length > 0 ? files.map((file) => `- ${formatListing(file)}`) : ["- (none)"] }
+	]
+	return limitListing(sections)
+}
+
+// Reads a path in the requested locale, falling back to the default locale when the page has no translation
+async function readLocalizedContent(request: DocRequest, queryKeywords: string[], config: DocsServerConfig, locale: string | undefined): Promise<ReadMdResult> {
+	const result = await readMdContent(request, queryKeywords, getLocaleConfig(config, locale))
+	const { locales, defaultLocale } = config
+	if (!locales || !defaultLocale) {
+		return result
+	}
+
+	const servedLocale = locale && locales.includes(locale) ? locale : defaultLocale
+	if (!result.found && !result.isSecurityViolation && servedLocale !== defaultLocale) {
+		const fallback = await readMdContent(request, queryKeywords, getLocaleConfig(config, defaultLocale))
+		if (fallback.found && fallback.result.type !== "error") {
+			return { ...fallback, result: { ...fallback.result, locale: defaultLocale, requestedLocale: servedLocale } }
+		}
+		return fallback.found ? fallback : result
+	}
+	return result.found && result.result.type !== "error" ? { ...result, result: { ...result.result, locale: servedLocale } } : result
+}
+
+async function readMdContent(request: DocRequest, queryKeywords: string[], config: DocsServerConfig, followRedirects = true): Promise<ReadMdResult> {
+	const docPath = request.path
+	const { filePath, anchor } = splitAnchor(docPath)
+	const { isSecurityViolation, resolved, root, rootPrefix, isExactMatch } = await resolveDocPath(filePath, config)
 
 	if (isSecurityViolation) {
 		await logger.error("Path traversal attempt detected", { docPath })
@@ -234,33 +589,100 @@ async function readMdContent(docPath: string, queryKeywords: string[], config: D
 	}
 
 	if (!resolved) {
-		return { found: false, isSecurityViolation: false }
+		const redirect = followRedirects ? await findRedirect(filePath, config) : null
+		return redirect ? readRedirectedContent(request, queryKeywords, config, redirect) : { found: false, isSecurityViolation: false }
 	}
 
 	try {
 		const stats = await fs.stat(resolved.absolutePath)
 
 		if (stats.isDirectory()) {
-			const { dirs, files } = await listDirContents(rootPrefix, resolved, config)
+			if (anchor) {
+				const anchorError: ErrorContent = {
+					type: "error",
+					path: docPath,
+					error: `Anchor "#${anchor}" cannot be used with directory "${filePath}".`
+				}
+				return { found: true, result: anchorError, isSecurityViolation: false }
+			}
+
+			const { dirs, files } = await listDirContents(root, rootPrefix, resolved, config)
 
-			const suggestions = await getMatchingPaths(docPath, queryKeywords, [config.docRoot.absolutePath])
+			const suggestions = await getMatchingPaths(docPath, queryKeywords, toSearchRoots(config.docRoots))
+			const tree = request.depth && request.depth > 1 ? await buildDirectoryTree(root, rootPrefix, resolved, request.depth, config) : undefined
 
 			const directoryResult: DirectoryContent = {
 				type: "directory",
 				path: docPath,
 				subdirectories: dirs,
 				files,
+				tree,
+				truncated: tree && tree.length < dirs.length ? true : undefined,
 				suggestions: suggestions || undefined
 			}
 
 			return { found: true, result: directoryResult, isSecurityViolation: false }
 		}
 
-		const content = await fs.readFile(resolved.absolutePath, "utf-8")
+		// The document's own frontmatter moves into the response frontmatter instead of the body
+		const { data: metadata, body: rawBody } = splitFrontmatter(await fs.readFile(resolved.absolutePath, "utf-8"))
+		// Includes are expanded first so MDX rendering doesn't strip <Include /> before it is resolved
+		const expandedBody = await expandIncludes(rawBody, resolved.relativePath, root.absolutePath)
+		const renderedBody = request.renderMdx && isMdxFile(resolved.absolutePath) ? await renderMdxBody(expandedBody, docPath) : expandedBody
+		// Relative links are rewritten to doc-root paths that can be passed straight back to this tool
+		const body = rewriteLinks(renderedBody, (href) => {
+			const link = resolveDocLink(resolved.relativePath, href)
+			return link ? `${qualifyPath(config, root, link.path)}${link.anchor ? `#${link.anchor}` : ""}` : undefined
+		})
+		let content = body
+		let sectionTitle: string | undefined
+		// Unqualified paths that resolved in a named root report the qualified path, like corrected paths do
+		const canonicalPath = qualifyPath(config, root, resolved.relativePath)
+		const resolvedPath = isExactMatch && (config.docRoots.length === 1 || filePath === canonicalPath) ? undefined : canonicalPath
+
+		if (anchor) {
+			const section = extractSection(body, anchor)
+			if (!section) {
+				const anchorError: ErrorContent = {
+					type: "error",
+					path: docPath,
+					error: `Anchor "#${anchor}" not found in "${filePath}".`,
+					anchors: extractHeadings(body).map((heading) => `${filePath}#${heading.slug}`)
+				}
+				return { found: true, result: anchorError, isSecurityViolation: false }
+			}
+			content = section.content
+			sectionTitle = section.heading.text
+		}
+
+		if (request.mode === "outline") {
+			const outlineResult: OutlineContent = {
+				type: "outline",
+				path: docPath,
+				resolvedPath,
+				metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+				section: sectionTitle,
+				headings: extractOutline(content),
+				totalLines: content.split("\n").length
+			}
+			return { found: true, result: outlineResult, isSecurityViolation: false }
+		}
+
+		const page = paginateContent(content, { offset: request.offset, limit: request.limit, unit: request.unit, maxSize: config.maxResponseSize })
+		const { content: pageContent, ...pageInfo } = page
+		const links = await loadLinkGraph(root.absolutePath)
+		const isPaginated = request.offset !== undefined || request.limit !== undefined || page.nextOffset !== undefined
+
 		const fileResult: FileContent = {
 			type: "file",
 			path: docPath,
-			content
+			content: pageContent,
+			resolvedPath,
+			metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+			section: sectionTitle,
+			page: isPaginated ? pageInfo : undefined,
+			linksTo: nonEmpty(links.linksTo.get(resolved.relativePath)?.map((target) => qualifyPath(config, root, target))),
+			linkedFrom: nonEmpty(links.linkedFrom.get(resolved.relativePath)?.map((source) => qualifyPath(config, root, source)))
 		}
 		return { found: true, result: fileResult, isSecurityViolation: false }
 	} catch (error) {
@@ -269,84 +691,161 @@ async function readMdContent(docPath: string, queryKeywords: string[], config: D
 	}
 }
 
-async function resolveDocPath(docPath: string, config: DocsServerConfig): Promise<{ isSecurityViolation: boolean; resolved: ResolvedDocPath | null; rootPrefix: string }> {
-	const normalized = normalizeDocPath(docPath)
-
-	if (hasTraversal(normalized)) {
-		return { isSecurityViolation: true, resolved: null, rootPrefix: "" }
+// Serves a moved path from its new location, keeping the requested path; redirects are followed one hop only
+async function readRedirectedContent(request: DocRequest, queryKeywords: string[], config: DocsServerConfig, redirect: { from: string; to: string }): Promise<ReadMdResult> {
+	const { anchor } = splitAnchor(request.path)
+	const target = splitAnchor(redirect.to)
+	const targetAnchor = anchor ?? target.anchor
+	const redirected = await readMdContent({ ...request, path: targetAnchor ? `${target.filePath}#${targetAnchor}` : target.filePath }, queryKeywords, config, false)
+	if (!redirected.found) {
+		return redirected
+	}
+	if (redirected.result.type === "error") {
+		return { ...redirected, result: { ...redirected.result, path: request.path } }
 	}
+	return { ...redirected, result: { ...redirected.result, path: request.path, resolvedPath: redirected.result.resolvedPath ?? target.filePath, movedFrom: redirect.from } }
+}
 
-	const root = config.docRoot
-	const rootPrefix = root.relativePath === "." ? "" : root.relativePath
-	const candidates = new Set<string>()
-	candidates.add(normalized)
+async function listDirContents(root: DocRoot, rootPrefix: string, resolved: ResolvedDocPath, config: DocsServerConfig): Promise<{ dirs: string[]; files: DocListing[] }> {
+	const dirEntries: string[] = []
+	const fileEntries: Array<{ displayPath: string; absolutePath: string }> = []
 
-	if (rootPrefix && normalized.startsWith(`${rootPrefix}/`)) {
-		candidates.add(normalized.slice(rootPrefix.length + 1))
+	const entries = await fs.readdir(resolved.absolutePath, { withFileTypes: true })
+
+	for (const entry of entries) {
+		if (await isExcludedEntry(path.join(resolved.absolutePath, entry.name), entry.isDirectory())) {
+			continue
+		}
+		if (entry.isDirectory()) {
+			dirEntries.push(buildDisplayPath(config, root, rootPrefix, resolved.relativePath, entry.name, true))
+		} else if (entry.isFile() && isMarkdownFile(entry.name)) {
+			fileEntries.push({
+				displayPath: buildDisplayPath(config, root, rootPrefix, resolved.relativePath, entry.name, false),
+				absolutePath: path.join(resolved.absolutePath, entry.name)
+			})
+		}
 	}
-	if (rootPrefix && normalized === rootPrefix) {
-		candidates.add(".")
+
+	dirEntries.sort((a, b) => a.localeCompare(b))
+
+	return {
+		dirs: dirEntries,
+		files: await buildListings(fileEntries)
 	}
-	if (normalized.length === 0) {
-		candidates.add(".")
+}
+
+// Expands subdirectories level by level so a large early folder can't starve its siblings of the entry cap
+async function buildDirectoryTree(root: DocRoot, rootPrefix: string, resolved: ResolvedDocPath, depth: number, config: DocsServerConfig): Promise<DirectoryTreeNode[]> {
+	type PendingNode = { node: DirectoryTreeNode; resolved: ResolvedDocPath; level: number }
+
+	const createNode = async (parent: ResolvedDocPath, displayPath: string, level: number): Promise<PendingNode> => {
+		// Drop the root name first so a top-level folder of a named root isn't read as `name:folder`
+		const qualifier = qualifyPath(config, root, "")
+		const name = path.basename(displayPath.slice(qualifier.length))
+		const childResolved: ResolvedDocPath = {
+			absolutePath: path.join(parent.absolutePath, name),
+			relativePath: parent.relativePath === "." ? name : `${parent.relativePath}/${name}`
+		}
+		return {
+			node: { path: displayPath, fileCount: await countMarkdownFiles(childResolved.absolutePath), files: [], subdirectories: [] },
+			resolved: childResolved,
+			level
+		}
 	}
 
-	for (const candidate of candidates) {
-		const relativePath = candidate === "." ? "." : normalizeDocPath(candidate)
-		const target = relativePath === "." ? root.absolutePath : path.resolve(root.absolutePath, relativePath)
+	const { dirs } = await listDirContents(root, rootPrefix, resolved, config)
+	// Top-level folders count against the cap too; the caller marks the listing truncated when some are left out
+	const roots = await Promise.all(dirs.slice(0, MAX_TREE_ENTRIES).map((dir) => createNode(resolved, dir, 1)))
+	let remainingEntries = MAX_TREE_ENTRIES - roots.length
+	let currentLevel = roots
 
-		if (!target.startsWith(root.absolutePath)) {
-			continue
+	for (let level = 1; currentLevel.length > 0; level += 1) {
+		if (level >= depth) {
+			for (const pending of currentLevel) {
+				pending.node.truncated = pending.node.fileCount > 0 ? true : undefined
+			}
+			break
 		}
 
-		try {
-			await fs.stat(target)
-			return {
-				isSecurityViolation: false,
-				resolved: {
-					absolutePath: target,
-					relativePath
-				},
-				rootPrefix
+		const contents = await Promise.all(currentLevel.map((pending) => listDirContents(root, rootPrefix, pending.resolved, config)))
+		const nextLevel: PendingNode[] = []
+
+		// Folders at this level are placed before any files so the outline keeps its shape when the cap is hit
+		for (const [index, pending] of currentLevel.entries()) {
+			for (const dir of contents[index].dirs) {
+				if (remainingEntries === 0) {
+					pending.node.truncated = true
+					break
+				}
+				const child = await createNode(pending.resolved, dir, level + 1)
+				pending.node.subdirectories.push(child.node)
+				nextLevel.push(child)
+				remainingEntries -= 1
 			}
-		} catch {
-			// continue searching other candidates
 		}
+		for (const [index, pending] of currentLevel.entries()) {
+			for (const file of contents[index].files) {
+				if (remainingEntries === 0) {
+					pending.node.truncated = true
+					break
+				}
+				pending.node.files.push(file)
+				remainingEntries -= 1
+			}
+		}
+
+		currentLevel = nextLevel
 	}
 
-	return { isSecurityViolation: false, resolved: null, rootPrefix }
+	return roots.map((root) => root.node)
 }
 
-async function listDirContents(rootPrefix: string, resolved: ResolvedDocPath, _config: DocsServerConfig): Promise<{ dirs: string[]; files: string[] }> {
-	const dirEntries: string[] = []
-	const fileEntries: string[] = []
+async function countMarkdownFiles(dir: string): Promise<number> {
+	let count = 0
+	for await (const _file of walkMdFiles(dir)) {
+		count += 1
+	}
+	return count
+}
 
-	const entries = await fs.readdir(resolved.absolutePath, { withFileTypes: true })
+// Attach frontmatter titles and descriptions; documents with an `order` come first
+async function buildListings(files: Array<{ displayPath: string; absolutePath: string }>): Promise<DocListing[]> {
+	const entries = await Promise.all(
+		files.map(async (file) => {
+			const metadata = await loadDocMetadata(file.absolutePath)
+			return { path: file.displayPath, title: metadata.title, description: metadata.description, order: metadata.order }
+		})
+	)
 
-	for (const entry of entries) {
-		if (entry.isDirectory()) {
-			dirEntries.push(buildDisplayPath(resolved.relativePath, entry.name, rootPrefix, true))
-		} else if (entry.isFile() && entry.name.endsWith(".md")) {
-			fileEntries.push(buildDisplayPath(resolved.relativePath, entry.name, rootPrefix, false))
-		}
-	}
+	return entries
+		.sort((a, b) => (a.order ?? Number.POSITIVE_INFINITY) - (b.order ?? Number.POSITIVE_INFINITY) || a.path.localeCompare(b.path))
+		.map(({ order: _order, ...listing }) => listing)
+}
 
-	dirEntries.sort((a, b) => a.localeCompare(b))
-	fileEntries.sort((a, b) => a.localeCompare(b))
+function formatListing(entry: DocListing): string {
+	const summary = [entry.title, entry.description].filter(Boolean).join(": ")
+	return summary ? `${entry.path} — ${summary}` : entry.path
+}
 
+async function collectAllTopLevelEntries(config: DocsServerConfig): Promise<TopLevelEntries> {
+	const entries = await Promise.all(config.docRoots.map((root) => collectTopLevelEntries(root, config)))
 	return {
-		dirs: dirEntries,
-		files: fileEntries
+		directories: entries.flatMap((entry) => entry.directories),
+		featured: entries.flatMap((entry) => entry.featured),
+		files: entries.flatMap((entry) => entry.files)
 	}
 }
 
-async function collectTopLevelEntries(docRoot: DocRoot, _config: DocsServerConfig): Promise<TopLevelEntries> {
+async function collectTopLevelEntries(docRoot: DocRoot, config: DocsServerConfig): Promise<TopLevelEntries> {
 	const directoryNames: string[] = []
 	const fileNames: string[] = []
 
 	const entries = await fs.readdir(docRoot.absolutePath, { withFileTypes: true })
 
 	for (const entry of entries) {
+		if (await isExcludedEntry(path.join(docRoot.absolutePath, entry.name), entry.isDirectory())) {
+			continue
+		}
 		if (entry.isDirectory()) {
 			directoryNames.push(entry.name)
 		} else if (entry.isFile() && isMarkdownFile(entry.name)) {
@@ -355,66 +854,108 @@ async function collectTopLevelEntries(docRoot: DocRoot, _config: DocsServerConfi
 	}
 
 	directoryNames.sort((a, b) => a.localeCompare(b))
-	fileNames.sort((a, b) => a.localeCompare(b))
 
-	let referenceSubdirectories: string[] = []
-	if (directoryNames.includes("reference")) {
-		const referenceEntries = await fs.readdir(path.join(docRoot.absolutePath, "reference"), { withFileTypes: true })
-		const refs = referenceEntries
-			.filter((entry) => entry.isDirectory())
-			.map((entry) => `reference/${entry.name}/`)
-			.sort((a, b) => a.localeCompare(b))
-		referenceSubdirectories = refs
+	const featured: string[] = []
+	for (const section of config.featured) {
+		const sectionPath = normalizeDocPath(section.path)
+		const sectionDir = path.join(docRoot.absolutePath, sectionPath)
+		const stats = hasTraversal(sectionPath) ? null : await fs.stat(sectionDir).catch(() => null)
+		if (stats?.isDirectory() && !(await isExcludedEntry(sectionDir, true))) {
+			const displayPath = qualifyPath(config, docRoot, `${sectionPath}/`)
+			const [listing] = section.descriptions ? await buildListings([{ displayPath, absolutePath: await findIndexPage(sectionDir) }]) : [{ path: displayPath }]
+			featured.push(`- ${formatListing(listing)}`, ...(await listFeaturedEntries(docRoot, sectionPath, section, 1, config)))
+		}
 	}
 
-	const directories = directoryNames.map((name) => `${name}/`)
-	const files = fileNames
+	const directories = directoryNames.map((name) => qualifyPath(config, docRoot, `${name}/`))
+	const files = await buildListings(fileNames.map((name) => ({ displayPath: qualifyPath(config, docRoot, name), absolutePath: path.join(docRoot.absolutePath, name) })))
 
 	return {
 		directories,
-		referenceSubdirectories,
+		featured,
 		files
 	}
 }
 
-function buildDisplayPath(relativePath: string, entry: string, rootPrefix: string, isDirectory: boolean): string {
-	const cleaned = relativePath === "." ? "" : normalizeDocPath(relativePath)
-	const segments = []
-	if (rootPrefix.length > 0) {
-		segments.push(rootPrefix)
-	}
-	if (cleaned.length > 0) {
-		segments.push(cleaned)
+// Subfolders and pages of a featured section, indented by level; a folder's title and description come from its index page
+async function listFeaturedEntries(docRoot: DocRoot, relativePath: string, section: FeaturedSection, level: number, config: DocsServerConfig): Promise<string[]> {
+	const dir = path.join(docRoot.absolutePath, relativePath)
+	const entries = (await fs.readdir(dir, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name))
+	const indent = "  ".repeat(level)
+	const lines: string[] = []
+
+	for (const entry of entries.filter((candidate) => candidate.isDirectory())) {
+		const entryDir = path.join(dir, entry.name)
+		if (await isExcludedEntry(entryDir, true)) {
+			continue
+		}
+		const displayPath = qualifyPath(config, docRoot, `${relativePath}/${entry.name}/`)
+		const [listing] = section.descriptions ? await buildListings([{ displayPath, absolutePath: await findIndexPage(entryDir) }]) : [{ path: displayPath }]
+		lines.push(`${indent}- ${formatListing(listing)}`)
+		if (level < section.depth) {
+			lines.push(...(await listFeaturedEntries(docRoot, `${relativePath}/${entry.name}`, section, level + 1, config)))
+		}
 	}
-	segments.push(entry)
-	const composed = segments.filter(Boolean).join("/")
-	return isDirectory ? `${composed}/` : composed
-}
 
-function hasTraversal(input: string): boolean {
-	return input.split("/").some((segment) => segment === "..")
+	const pages: Array<{ displayPath: string; absolutePath: string }> = []
+	for (const entry of entries.filter((candidate) => candidate.isFile() && isMarkdownFile(candidate.name) && !/^index\.mdx?$/i.test(candidate.name))) {
+		const absolutePath = path.join(dir, entry.name)
+		if (!(await isExcludedEntry(absolutePath, false))) {
+			pages.push({ displayPath: qualifyPath(config, docRoot, `${relativePath}/${entry.name}`), absolutePath })
+		}
+	}
+	const listings = section.descriptions ? await buildListings(pages) : pages.map((page) => ({ path: page.displayPath }))
+	lines.push(...listings.map((listing) => `${indent}- ${formatListing(listing)}`))
+	return lines
 }
 
-function isMarkdownFile(name: string): boolean {
-	return /\.mdx?$/i.test(name)
+async function findIndexPage(dir: string): Promise<string> {
+	const mdxIndex = path.join(dir, "index.mdx")
+	return (await fs.stat(mdxIndex).catch(() => null)) ? mdxIndex : path.join(dir, "index.md")
 }
 
-function formatFrontmatter(data: Record<string, unknown>): string {
-	// Filter out undefined and null values
-	const cleaned: Record<string, unknown> = {}
-	for (const [key, value] of Object.entries(data)) {
-		if (value !== undefined && value !== null) {
-			cleaned[key] = value
+// Keeps whole lines up to the length budget and notes how many were left out; sections left without lines are dropped
+function limitListing(sections: Array<{ heading: string; lines: string[] }>): Array<{ heading: string; lines: string[] }> {
+	let length = 0
+	const kept: Array<{ heading: string; lines: string[] }> = []
+	for (const [index, section] of sections.entries()) {
+		length += section.heading.length + 1
+		const cut = section.lines.findIndex((line) => {
+			length += line.length + 1
+			return length > MAX_LISTING_LENGTH
+		})
+		if (cut === -1) {
+			kept.push(section)
+			continue
 		}
+		const omitted = section.lines.length - cut + sections.slice(index + 1).reduce((sum, later) => sum + later.lines.length, 0)
+		const marker = `- … ${omitted} more entries; list a directory with this tool to see them all`
+		kept.push({ heading: section.heading, lines: [...section.lines.slice(0, cut), marker] })
+		break
 	}
+	return kept
+}
 
-	// Use yaml library to stringify
-	const yamlContent = stringify(cleaned, {
-		lineWidth: 0, // Don't wrap lines
-		minContentWidth: 0
-	})
+function buildDisplayPath(config: DocsServerConfig, root: DocRoot, rootPrefix: string, relativePath: string, entry: string, isDirectory: boolean): string {
+	const cleaned = relativePath === "." ? "" : normalizeDocPath(relativePath)
+	const composed = [cleaned, entry].filter(Boolean).join("/")
+	const entryPath = isDirectory ? `${composed}/` : composed
+	// Several roots need the root name to resolve; a single root keeps its folder in front, which resolves just as well
+	return config.docRoots.length > 1 ? qualifyPath(config, root, entryPath) : [rootPrefix, entryPath].filter(Boolean).join("/")
+}
+
+async function renderMdxBody(body: string, docPath: string): Promise<string> {
+	try {
+		return renderMdxToMarkdown(body)
+	} catch (error) {
+		// Serve the raw MDX rather than failing the read
+		await logger.warning(`Failed to render MDX for path: ${docPath}`, error)
+		return body
+	}
+}
 
-	return `---\n${yamlContent}---`
+function nonEmpty<T>(items: T[] | undefined): T[] | undefined {
+	return items && items.length > 0 ? items : undefined
 }
 
 function formatDirectoryContent(result: DirectoryContent): string {
@@ -422,7 +963,14 @@ function formatDirectoryContent(result: DirectoryContent): string {
 
 	lines.push(`# Directory: ${result.path}\n`)
 
-	if (result.subdirectories.length > 0) {
+	if (result.tree && result.tree.length > 0) {
+		lines.push("## Tree\n")
+		lines.push(...formatDirectoryTree(result.tree, 0))
+		if (result.truncated) {
+			lines.push(`- … ${result.subdirectories.length - result.tree.length} more folders (truncated)`)
+		}
+		lines.push("")
+	} else if (result.subdirectories.length > 0) {
 		lines.push("## Subdirectories\n")
 		result.subdirectories.forEach((dir) => {
 			lines.push(`- ${dir}`)
@@ -433,7 +981,7 @@ function formatDirectoryContent(result: DirectoryContent): string {
 	if (result.files.length > 0) {
 		lines.push("## Files\n")
 		result.files.forEach((file) => {
-			lines.push(`- ${file}`)
+			lines.push(`- ${formatListing(file)}`)
 		})
 		lines.push("")
 	}
@@ -445,3 +993,17 @@ function formatDirectoryContent(result: DirectoryContent): string {
 
 	return lines.join("\n")
 }
+
+function formatDirectoryTree(nodes: DirectoryTreeNode[], level: number): string[] {
+	const indent = "  ".repeat(level)
+	const lines: string[] = []
+
+	for (const node of nodes) {
+		const details = [`${node.fileCount} ${node.fileCount === 1 ? "file" : "files"}`, node.truncated ? "truncated" : undefined].filter(Boolean).join(", ")
+		lines.push(`${indent}- ${node.path} (${details})`)
+		lines.push(...formatDirectoryTree(node.subdirectories, level + 1))
+		lines.push(...node.files.map((file) => `${indent}  - ${formatListing(file)}`))
+	}
+
+	return lines
+}
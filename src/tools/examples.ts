@@ -0,0 +1,223 @@
+import fs from "node:fs/promises"
+import path from "node:path"
+import type { ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js"
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js"
+import { z } from "zod"
+
+import type { DocRoot, DocsServerConfig } from "../utils/config.js"
+import { getLocaleConfig, getVersionConfig } from "../utils/config.js"
+import { expandIncludes, searchDocuments, toSearchRoots, walkMdFiles } from "../utils/index.js"
+import { logger } from "../utils/logger.js"
+import type { CodeBlock } from "../utils/markdown.js"
+import { extractCodeBlocks, extractSection, formatFrontmatter, splitFrontmatter } from "../utils/markdown.js"
+import { qualifyPath, resolveDocPath, splitAnchor } from "../utils/paths.js"
+
+const DEFAULT_EXAMPLES_LIMIT = 20
+const MAX_EXAMPLES_LIMIT = 100
+// Pages taken from the top of the search results when a query is given
+const QUERY_PAGE_LIMIT = 5
+
+interface ExamplePage {
+	root: DocRoot
+	relativePath: string
+	absolutePath: string
+	anchor?: string
+	config: DocsServerConfig
+}
+
+interface ExamplePageError {
+	path: string
+	error: string
+}
+
+export async function createExamplesTool(config: DocsServerConfig) {
+	const versionNames = config.versions?.map((version) => version.name)
+	const examplesParameters = z.object({
+		paths: z
+			.array(z.string())
+			.optional()
+			.describe('Documentation paths to take code blocks from. Directories include every page below them; "path#anchor" limits a page to one section.'),
+		query: z.string().min(1).optional().describe(`Free-text query; code blocks are taken from the top ${QUERY_PAGE_LIMIT} matching pages, in rank order.`),
+		languages: z
+			.array(z.string())
+			.optional()
+			.describe('Language tags to keep, matched case-insensitively against the first word of the fence info string (for example "ts" or "bash"). Blocks without a tag are left out when set.'),
+		limit: z
+			.number()
+			.int()
+			.min(1)
+			.max(MAX_EXAMPLES_LIMIT)
+			.optional()
+			.describe(`Maximum number of code blocks to return (default ${DEFAULT_EXAMPLES_LIMIT}, max ${MAX_EXAMPLES_LIMIT}).`),
+		...(versionNames
+			? {
+					version: z
+						.enum(versionNames as [string, ...string[]])
+						.optional()
+						.describe(`Documentation version to read (default "${versionNames[0]}", the latest).`)
+				}
+			: {}),
+		...(config.locales
+			? {
+					locale: z
+						.enum(config.locales as [string, ...string[]])
+						.optional()
+						.describe(`Documentation locale to read (default "${config.defaultLocale}"). Pages without a translation fall back to "${config.defaultLocale}".`)
+				}
+			: {})
+	})
+	const toolName = config.examplesTool
+
+	const callback: ToolCallback<typeof examplesParameters> = async (args, _extra) => {
+		void logger.debug(`Executing ${toolName} tool`, { args })
+		if (!args.paths?.length && !args.query) {
+			return {
+				content: [{ type: "text" as const, text: `${formatFrontmatter({ results: 0 })}\n\nPass paths, a query, or both to choose the pages to take code blocks from.` }]
+			} satisfies CallToolResult
+		}
+
+		const versionConfig = getVersionConfig(config, typeof args.version === "string" ? args.version : undefined)
+		const locale = typeof args.locale === "string" ? args.locale : undefined
+		const localeConfig = getLocaleConfig(versionConfig, locale)
+		const languages = args.languages?.map((language) => language.toLowerCase())
+		const limit = args.limit ?? DEFAULT_EXAMPLES_LIMIT
+
+		const requestedPaths = [...(args.paths ?? [])]
+		if (args.query) {
+			const hits = await searchDocuments(args.query, toSearchRoots(localeConfig.docRoots), QUERY_PAGE_LIMIT)
+			requestedPaths.push(...hits.map((hit) => hit.path))
+		}
+
+		const pages: ExamplePage[] = []
+		const contentItems: Array<{ type: "text"; text: string }> = []
+		for (const requestedPath of requestedPaths) {
+			const result = await collectPages(requestedPath, versionConfig, locale)
+			if ("error" in result) {
+				contentItems.push({ type: "text", text: formatFrontmatter({ path: result.path, error: result.error }) })
+				continue
+			}
+			for (const page of result) {
+				if (!pages.some((existing) => existing.absolutePath === page.absolutePath && existing.anchor === page.anchor)) {
+					pages.push(page)
+				}
+			}
+		}
+
+		let returned = 0
+		for (const page of pages) {
+			if (returned >= limit) {
+				break
+			}
+			const displayPath = qualifyPath(page.config, page.root, page.relativePath)
+			try {
+				const blocks = await readCodeBlocks(page)
+				if (!blocks) {
+					contentItems.push({ type: "text", text: formatFrontmatter({ path: `${displayPath}#${page.anchor}`, error: `Anchor "#${page.anchor}" not found in "${displayPath}".` }) })
+					continue
+				}
+				for (const block of blocks) {
+					if (returned >= limit) {
+						break
+					}
+					if (languages && (!block.language || !languages.includes(block.language))) {
+						continue
+					}
+					contentItems.push({ type: "text", text: formatExample(displayPath, block) })
+					returned++
+				}
+			} catch (error) {
+				await logger.warning(`Failed to read code blocks for path: ${displayPath}`, error)
+				contentItems.push({ type: "text", text: formatFrontmatter({ path: displayPath, error: error instanceof Error ? error.message : "Unknown error" }) })
+			}
+		}
+
+		if (returned === 0) {
+			const filter = languages ? ` tagged ${languages.map((language) => `"${language}"`).join(", ")}` : ""
+			contentItems.push({
+				type: "text",
+				text: `${formatFrontmatter({ results: 0 })}\n\nNo code blocks${filter} were found. Try other paths or keywords, or read the pages with the ${config.tool} tool.`
+			})
+		}
+
+		return {
+			content: contentItems
+		} satisfies CallToolResult
+	}
+
+	const toolDescription = `Returns the fenced code blocks from ${config.name} documentation pages, without the surrounding prose. Choose pages by path (as used by the \`${config.tool}\` tool), by a free-text query, or both, and filter blocks by language tag.\n\nOutput format: Returns an array of text content items, one per code block in page order, each with YAML frontmatter followed by the fenced code. Frontmatter includes: path, language (when the fence declares one), heading and anchor (the closest heading above the block; pass anchor to \`${config.tool}\` to read the section), and line (1-based line of the opening fence within the page body). Paths that cannot be read are returned as items with path and error.`
+
+	return {
+		name: toolName,
+		config: {
+			description: toolDescription,
+			inputSchema: examplesParameters
+		},
+		cb: callback
+	}
+}
+
+// Resolves a requested path the way the docs tool does, expanding directories to the pages below them
+async function collectPages(requestedPath: string, config: DocsServerConfig, locale: string | undefined): Promise<ExamplePage[] | ExamplePageError> {
+	const { filePath, anchor } = splitAnchor(requestedPath)
+	// Pages missing from the requested locale fall back to the default one
+	const candidateConfigs = [...new Set([locale, config.defaultLocale])].map((candidate) => getLocaleConfig(config, candidate))
+
+	for (const candidateConfig of candidateConfigs) {
+		const { isSecurityViolation, resolved, root } = await resolveDocPath(filePath, candidateConfig)
+		if (isSecurityViolation) {
+			await logger.error("Path traversal attempt detected", { docPath: requestedPath })
+			return { path: requestedPath, error: "Invalid path" }
+		}
+		if (!resolved) {
+			continue
+		}
+
+		const stats = await fs.stat(resolved.absolutePath)
+		if (!stats.isDirectory()) {
+			return [{ root, relativePath: resolved.relativePath, absolutePath: resolved.absolutePath, anchor, config: candidateConfig }]
+		}
+		if (anchor) {
+			return { path: requestedPath, error: `Anchor "#${anchor}" cannot be used with directory "${filePath}".` }
+		}
+
+		const pages: ExamplePage[] = []
+		for await (const file of walkMdFiles(resolved.absolutePath)) {
+			pages.push({ root, relativePath: path.relative(root.absolutePath, file).split(path.sep).join("/"), absolutePath: file, config: candidateConfig })
+		}
+		return pages
+	}
+
+	return { path: requestedPath, error: `Path "${requestedPath}" not found.` }
+}
+
+// Code blocks of a page, or of one section when the page was requested with an anchor; null when the anchor is unknown
+async function readCodeBlocks(page: ExamplePage): Promise<CodeBlock[] | null> {
+	const { body: rawBody } = splitFrontmatter(await fs.readFile(page.absolutePath, "utf-8"))
+	const body = await expandIncludes(rawBody, page.relativePath, page.root.absolutePath)
+	const blocks = extractCodeBlocks(body)
+	if (!page.anchor) {
+		return blocks
+	}
+
+	// Blocks are extracted from the whole page so lines and heading anchors match the docs tool's
+	const section = extractSection(body, page.anchor)
+	if (!section) {
+		return null
+	}
+	const sectionEnd = section.heading.line + section.content.split("\n").length
+	return blocks.filter((block) => block.line > section.heading.line && block.line < sectionEnd)
+}
+
+function formatExample(displayPath: string, block: CodeBlock): string {
+	const frontmatterStr = formatFrontmatter({
+		path: displayPath,
+		language: block.language,
+		heading: block.heading?.text,
+		anchor: block.heading ? `${displayPath}#${block.heading.slug}` : undefined,
+		line: block.line
+	})
+	// The fence must be longer than any backtick run inside the code
+	const longestRun = Math.max(0, ...(block.code.match(/`+/g) ?? []).map((run) => run.length))
+	const fence = "`".repeat(Math.max(3, longestRun + 1))
+	return `${frontmatterStr}\n\n${fence}${block.language ?? ""}\n${block.code}\n${fence}`
+}
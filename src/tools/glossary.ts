@@ -0,0 +1,134 @@
+import path from "node:path"
+import type { ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js"
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js"
+import { z } from "zod"
+
+import type { DocsServerConfig } from "../utils/config.js"
+import { getLocaleConfig, getVersionConfig } from "../utils/config.js"
+import type { GlossaryEntry } from "../utils/glossary.js"
+import { findGlossaryEntries, loadGlossary } from "../utils/glossary.js"
+import { searchDocuments, toSearchRoots } from "../utils/index.js"
+import { logger } from "../utils/logger.js"
+import { formatFrontmatter } from "../utils/markdown.js"
+import { qualifyPath } from "../utils/paths.js"
+
+const DEFAULT_PAGES_LIMIT = 5
+const MAX_PAGES_LIMIT = 20
+
+export async function createGlossaryTool(config: DocsServerConfig) {
+	const entries = config.glossaryPath ? await loadGlossary(config.glossaryPath) : []
+	const versionNames = config.versions?.map((version) => version.name)
+	const glossaryParameters = z.object({
+		term: z.string().min(1).describe("Term to define. Matched against glossary terms and their aliases, ignoring case and word endings; close spellings are returned as fuzzy matches."),
+		limit: z
+			.number()
+			.int()
+			.min(1)
+			.max(MAX_PAGES_LIMIT)
+			.optional()
+			.describe(`Maximum number of pages using the term to return (default ${DEFAULT_PAGES_LIMIT}, max ${MAX_PAGES_LIMIT}).`),
+		...(versionNames
+			? {
+					version: z
+						.enum(versionNames as [string, ...string[]])
+						.optional()
+						.describe(`Documentation version to find pages in (default "${versionNames[0]}", the latest).`)
+				}
+			: {}),
+		...(config.locales
+			? {
+					locale: z
+						.enum(config.locales as [string, ...string[]])
+						.optional()
+						.describe(`Documentation locale to find pages in (default "${config.defaultLocale}").`)
+				}
+			: {})
+	})
+	const toolName = config.glossaryTool
+
+	const callback: ToolCallback<typeof glossaryParameters> = async (args, _extra) => {
+		void logger.debug(`Executing ${toolName} tool`, { args })
+		const matches = findGlossaryEntries(entries, args.term)
+		if (matches.length === 0) {
+			const frontmatterStr = formatFrontmatter({ term: args.term, results: 0 })
+			return {
+				content: [
+					{
+						type: "text" as const,
+						text: `${frontmatterStr}\n\nNo glossary term matches "${args.term}". Search the pages that mention it with the ${config.searchTool} tool.`
+					}
+				]
+			} satisfies CallToolResult
+		}
+
+		const versionConfig = getVersionConfig(config, typeof args.version === "string" ? args.version : undefined)
+		const scopedConfig = getLocaleConfig(versionConfig, typeof args.locale === "string" ? args.locale : undefined)
+		// A glossary page usually lives in the default locale, so its path is looked up there when the locale has no copy
+		const sourceConfigs = [scopedConfig, getLocaleConfig(versionConfig, undefined)]
+
+		const contentItems = matches.map(({ entry, match }) => {
+			const frontmatterStr = formatFrontmatter({
+				term: entry.term,
+				aliases: entry.aliases.length > 0 ? entry.aliases : undefined,
+				match,
+				source: formatSource(entry, sourceConfigs),
+				line: entry.line
+			})
+			return {
+				type: "text" as const,
+				text: `${frontmatterStr}\n\n${entry.definition}`
+			}
+		})
+
+		// Pages using the best match most, by keyword score alone; the glossary's own pages would always rank first
+		const [best] = matches
+		const glossaryPages = new Set(entries.map((entry) => formatSource(entry, sourceConfigs)))
+		const query = [best.entry.term, ...best.entry.aliases].map((name) => `"${name}"`).join(" ")
+		const limit = args.limit ?? DEFAULT_PAGES_LIMIT
+		const hits = await searchDocuments(query, toSearchRoots(scopedConfig.docRoots), limit + glossaryPages.size, "keyword")
+		const pages = hits.filter((hit) => !glossaryPages.has(hit.path)).slice(0, limit)
+		contentItems.push(
+			...pages.map((hit, index) => {
+				const frontmatterStr = formatFrontmatter({
+					path: hit.path,
+					title: hit.title,
+					term: best.entry.term,
+					rank: index + 1,
+					score: Math.round(hit.score * 100) / 100
+				})
+				return {
+					type: "text" as const,
+					text: `${frontmatterStr}\n\n${hit.snippet}`
+				}
+			})
+		)
+
+		return {
+			content: contentItems
+		} satisfies CallToolResult
+	}
+
+	const toolDescription = `Looks up ${config.name} terms in the glossary (${entries.length} terms) and returns their definitions, followed by the documentation pages that use the best-matching term most. Use it before guessing what an internal term means.\n\nOutput format: Returns an array of text content items. Definitions come first, each with YAML frontmatter (term, aliases, match: "exact" or "fuzzy", source, and line within the page body for Markdown sources) followed by the definition. Then the pages using the term, in rank order, each with frontmatter (path, title, term, rank, score) followed by a snippet with the term highlighted in **bold**; pass path to the \`${config.tool}\` tool to read a page.`
+
+	return {
+		name: toolName,
+		config: {
+			description: toolDescription,
+			inputSchema: glossaryParameters
+		},
+		cb: callback
+	}
+}
+
+// Markdown sources inside a doc root are shown as doc paths, trying each scoped config in turn; terms files relative to the config
+function formatSource(entry: GlossaryEntry, configs: DocsServerConfig[]): string {
+	for (const config of configs) {
+		for (const root of config.docRoots) {
+			const relativePath = path.relative(root.absolutePath, entry.source)
+			if (!relativePath.startsWith("..") && !path.isAbsolute(relativePath)) {
+				return qualifyPath(config, root, relativePath.split(path.sep).join("/"))
+			}
+		}
+	}
+	return path.relative(configs[0].rootDir, entry.source).split(path.sep).join("/")
+}
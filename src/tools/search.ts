@@ -0,0 +1,94 @@
+import type { ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js"
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js"
+import { z } from "zod"
+
+import type { DocsServerConfig } from "../utils/config.js"
+import { getLocaleConfig, getVersionConfig } from "../utils/config.js"
+import { searchDocuments, toSearchRoots } from "../utils/index.js"
+import { logger } from "../utils/logger.js"
+import { formatFrontmatter } from "../utils/markdown.js"
+
+const DEFAULT_SEARCH_LIMIT = 10
+const MAX_SEARCH_LIMIT = 50
+
+export async function createSearchTool(config: DocsServerConfig) {
+	const versionNames = config.versions?.map((version) => version.name)
+	const searchParameters = z.object({
+		query: z
+			.string()
+			.min(1)
+			.describe('Free-text query to search for across all documentation pages. Wrap words in double quotes to match them as an exact phrase ("rate limit").'),
+		limit: z
+			.number()
+			.int()
+			.min(1)
+			.max(MAX_SEARCH_LIMIT)
+			.optional()
+			.describe(`Maximum number of results to return (default ${DEFAULT_SEARCH_LIMIT}, max ${MAX_SEARCH_LIMIT}).`),
+		...(versionNames
+			? {
+					version: z
+						.enum(versionNames as [string, ...string[]])
+						.optional()
+						.describe(`Documentation version to search (default "${versionNames[0]}", the latest).`)
+				}
+			: {}),
+		...(config.locales
+			? {
+					locale: z
+						.enum(config.locales as [string, ...string[]])
+						.optional()
+						.describe(`Documentation locale to search (default "${config.defaultLocale}").`)
+				}
+			: {})
+	})
+	const toolName = config.searchTool
+
+	const callback: ToolCallback<typeof searchParameters> = async (args, _extra) => {
+		void logger.debug(`Executing ${toolName} tool`, { args })
+		const versionConfig = getVersionConfig(config, typeof args.version === "string" ? args.version : undefined)
+		const scopedConfig = getLocaleConfig(versionConfig, typeof args.locale === "string" ? args.locale : undefined)
+		const hits = await searchDocuments(args.query, toSearchRoots(scopedConfig.docRoots), args.limit ?? DEFAULT_SEARCH_LIMIT)
+
+		if (hits.length === 0) {
+			const frontmatterStr = formatFrontmatter({ query: args.query, results: 0 })
+			return {
+				content: [
+					{
+						type: "text" as const,
+						text: `${frontmatterStr}\n\nNo documents matched "${args.query}". Try different keywords or browse paths with the ${config.tool} tool.`
+					}
+				]
+			} satisfies CallToolResult
+		}
+
+		// Return each hit as a separate content item with frontmatter, in rank order
+		const contentItems = hits.map((hit, index) => {
+			const frontmatterStr = formatFrontmatter({
+				path: hit.path,
+				title: hit.title,
+				rank: index + 1,
+				score: Math.round(hit.score * 100) / 100
+			})
+			return {
+				type: "text" as const,
+				text: `${frontmatterStr}\n\n${hit.snippet}`
+			}
+		})
+
+		return {
+			content: contentItems
+		} satisfies CallToolResult
+	}
+
+	const toolDescription = `Full-text search across the ${config.name} documentation. Use this to find relevant pages before fetching them in full with the \`${config.tool}\` tool.\n\nOutput format: Returns an array of text content items in rank order, each with YAML frontmatter followed by body. Frontmatter includes: path, title (when the page declares one), rank, and score. Body contains a snippet around the best match with matched terms highlighted in **bold**.`
+
+	return {
+		name: toolName,
+		config: {
+			description: toolDescription,
+			inputSchema: searchParameters
+		},
+		cb: callback
+	}
+}
@@ -1,36 +1,138 @@
 import fs from "node:fs"
 import path from "node:path"
 import { z } from "zod"
+import { GLOSSARY_FILENAMES } from "./glossary.js"
+import { IGNORE_FILENAME } from "./ignore.js"
+import { registerIgnoreRules, registerQueryOptions } from "./index.js"
+import type { SearchRanking } from "./search.js"
+import type { SynonymDictionary } from "./synonyms.js"
+import { parseSynonyms, SYNONYMS_FILENAMES } from "./synonyms.js"
 
 export const CONFIG_FILENAME = "mcp-docs-server.json"
 export const DEFAULT_TOOL_NAME = "searchDocs"
+export const DEFAULT_SEARCH_TOOL_NAME = "searchDocsFullText"
+export const DEFAULT_EXAMPLES_TOOL_NAME = "searchDocsExamples"
+export const DEFAULT_CHANGES_TOOL_NAME = "searchDocsChanges"
+export const DEFAULT_GLOSSARY_TOOL_NAME = "defineDocsTerm"
+
+const docsSchema = z.union([z.string(), z.array(z.string()).min(1), z.record(z.string())])
+
+// Folders whose contents are listed in the docs tool description when nothing else is configured
+const DEFAULT_FEATURED_SECTIONS = ["reference"]
+const MAX_FEATURED_DEPTH = 5
 
 const configSchema = z.object({
 	name: z.string(),
 	package: z.string(),
 	version: z.string(),
-	docs: z.string().optional()
+	docs: docsSchema.optional(),
+	// Newest first; each version reads its own folders, or the docs folders as they were at a git tag
+	versions: z
+		.array(
+			z.object({
+				name: z.string(),
+				docs: docsSchema.optional(),
+				tag: z.string().optional()
+			})
+		)
+		.min(1)
+		.optional(),
+	// Each doc root holds one folder per locale, e.g. docs/en and docs/ja
+	locales: z.array(z.string()).min(1).optional(),
+	defaultLocale: z.string().optional(),
+	maxResponseSize: z.number().int().positive().optional(),
+	maxTokens: z.number().int().positive().optional(),
+	ignore: z.array(z.string()).optional(),
+	// Replaces the built-in English stop words dropped from search queries; [] keeps every word
+	stopWords: z.array(z.string()).optional(),
+	// "hybrid" blends keyword scores with locally computed vector similarity
+	ranking: z.enum(["keyword", "hybrid"]).optional(),
+	// Old doc path -> new doc path, for pages and folders that moved
+	redirects: z.record(z.string()).optional(),
+	// Terms file, or Markdown page or folder with definition lists, relative to this file
+	glossary: z.string().optional(),
+	// Folders, relative to each doc root, whose contents are listed in the docs tool description
+	featured: z
+		.array(
+			z.union([
+				z.string(),
+				z.object({
+					path: z.string(),
+					depth: z.number().int().min(1).max(MAX_FEATURED_DEPTH).optional(),
+					descriptions: z.boolean().optional()
+				})
+			])
+		)
+		.optional()
 })
 
 export interface DocRoot {
+	// Namespace for addressing the root as `name:path`; the folder name unless the config maps names to folders
+	name: string
 	relativePath: string
 	absolutePath: string
 }
 
+export interface DocVersion {
+	name: string
+	docRoots: DocRoot[]
+	// Set for versions read from a git tag; the roots live in snapshotDir once the snapshot is extracted
+	tag?: string
+	snapshotDir?: string
+}
+
+export interface FeaturedSection {
+	// Relative to each doc root; roots without the folder skip it
+	path: string
+	// Levels of subfolders listed below the section, 1 for its immediate entries
+	depth: number
+	// Whether entries show their frontmatter title and description
+	descriptions: boolean
+}
+
 export interface DocsServerConfig {
 	name: string
 	title: string
 	packageName: string
 	version: string
 	tool: string
+	searchTool: string
+	examplesTool: string
+	changesTool: string
+	glossaryTool: string
 	description: string
+	// The first configured root; unqualified paths are tried against it first
 	docRoot: DocRoot
+	docRoots: DocRoot[]
+	// Declared versions, latest first; docRoots are the latest version's roots
+	versions?: DocVersion[]
+	// Locale folders inside every doc root; docRoots point at the roots themselves, not a locale
+	locales?: string[]
+	defaultLocale?: string
+	// Maximum characters of document content returned per path
+	maxResponseSize?: number
+	// Default token budget for a single docs tool response
+	maxTokens?: number
+	// Gitignore-style patterns from the config, applied to every root after its own .docsignore
+	ignore: string[]
+	// Search synonyms from the synonyms file next to the config, if there is one
+	synonyms?: SynonymDictionary
+	synonymsPath?: string
+	// Stop words dropped from search queries, when the config replaces the built-in list
+	stopWords?: string[]
+	// Search ranking mode; keyword-only unless the config asks for hybrid
+	ranking?: SearchRanking
+	// Moved pages and folders, old path -> new path; pages can also list old paths in redirect_from frontmatter
+	redirects?: Record<string, string>
+	// Source of the glossary tool: the configured glossary, or a glossary file next to the config
+	glossaryPath?: string
+	featured: FeaturedSection[]
 	configPath: string
 	rootDir: string
 	raw: z.infer<typeof configSchema>
 }
 
-function createToolName(rawName: string, rawPackage: string): string {
+function createToolNameBase(rawName: string, rawPackage: string): string | null {
 	const candidates = [rawName, rawPackage]
 
 	for (const candidate of candidates) {
@@ -43,11 +145,11 @@ function createToolName(rawName: string, rawPackage: string): string {
 			.join("")
 
 		if (cleaned.length > 0) {
-			return `search${cleaned}`
+			return cleaned
 		}
 	}
 
-	return DEFAULT_TOOL_NAME
+	return null
 }
 
 function normalizeDocDir(dir: string): string {
@@ -64,6 +166,157 @@ function normalizeDocDir(dir: string): string {
 	return normalized.length === 0 ? "docs" : normalized
 }
 
+const ROOT_NAME_PATTERN = /^[A-Za-z0-9._-]+$/
+
+function resolveDocRoots(docs: z.infer<typeof configSchema>["docs"], rootDir: string): DocRoot[] {
+	const entries: Array<[string | undefined, string]> =
+		docs === undefined ? [[undefined, "docs"]] : typeof docs === "string" ? [[undefined, docs]] : Array.isArray(docs) ? docs.map((dir) => [undefined, dir]) : Object.entries(docs)
+
+	if (entries.length === 0) {
+		throw new Error("At least one doc directory must be configured.")
+	}
+
+	const roots = entries.map(([name, dir]): DocRoot => {
+		const docsDir = normalizeDocDir(dir)
+		return {
+			name: name ?? path.posix.basename(docsDir),
+			relativePath: docsDir,
+			absolutePath: path.resolve(rootDir, docsDir)
+		}
+	})
+
+	const seen = new Set<string>()
+	for (const root of roots) {
+		if (!ROOT_NAME_PATTERN.test(root.name)) {
+			throw new Error(`Doc root name "${root.name}" may only contain letters, digits, ".", "_" and "-".`)
+		}
+		if (seen.has(root.name)) {
+			throw new Error(`Doc root name "${root.name}" is used more than once. Map names to folders, e.g. { "guides": "a/docs", "api": "b/docs" }.`)
+		}
+		seen.add(root.name)
+	}
+
+	return roots
+}
+
+function resolveVersions(versions: z.infer<typeof configSchema>["versions"], defaultDocs: z.infer<typeof docsSchema> | undefined, defaultRoots: DocRoot[], rootDir: string): DocVersion[] | undefined {
+	if (!versions) {
+		return undefined
+	}
+
+	const seen = new Set<string>()
+	return versions.map((entry) => {
+		if (!ROOT_NAME_PATTERN.test(entry.name)) {
+			throw new Error(`Version name "${entry.name}" may only contain letters, digits, ".", "_" and "-".`)
+		}
+		if (seen.has(entry.name)) {
+			throw new Error(`Version "${entry.name}" is declared more than once.`)
+		}
+		seen.add(entry.name)
+
+		if (entry.tag) {
+			const snapshotDir = path.join(rootDir, ".build", "versions", entry.name)
+			return { name: entry.name, tag: entry.tag, snapshotDir, docRoots: resolveDocRoots(entry.docs ?? defaultDocs, snapshotDir) }
+		}
+		return { name: entry.name, docRoots: entry.docs ? resolveDocRoots(entry.docs, rootDir) : defaultRoots }
+	})
+}
+
+// Scopes a config to one version's roots; unknown or missing names leave the latest version in place
+export function getVersionConfig(config: DocsServerConfig, versionName: string | undefined): DocsServerConfig {
+	const version = versionName ? config.versions?.find((candidate) => candidate.name === versionName) : undefined
+	if (!version) {
+		return config
+	}
+	return { ...config, docRoot: version.docRoots[0], docRoots: version.docRoots }
+}
+
+// Scopes a config to one locale's folders; paths keep the root's relativePath so they read the same in every locale
+export function getLocaleConfig(config: DocsServerConfig, locale: string | undefined): DocsServerConfig {
+	if (!config.locales || !config.defaultLocale) {
+		return config
+	}
+	const folder = locale && config.locales.includes(locale) ? locale : config.defaultLocale
+	const docRoots = config.docRoots.map((root) => ({ ...root, absolutePath: path.join(root.absolutePath, folder) }))
+	return { ...config, docRoot: docRoots[0], docRoots }
+}
+
+// Checks that a root and its locale folders exist, and registers its .docsignore together with the config's ignore patterns and synonyms
+export function prepareDocRoot(root: DocRoot, config: Pick<DocsServerConfig, "ignore" | "locales" | "synonyms" | "stopWords" | "ranking">): void {
+	ensureDirectoryExists(root.absolutePath)
+	for (const locale of config.locales ?? []) {
+		ensureDirectoryExists(path.join(root.absolutePath, locale))
+	}
+	registerIgnoreRules(root.absolutePath, [...readIgnoreFile(root.absolutePath), ...config.ignore])
+	registerQueryOptions(root.absolutePath, {
+		synonyms: config.synonyms,
+		stopWords: config.stopWords ? new Set(config.stopWords.map((word) => word.toLowerCase())) : undefined,
+		ranking: config.ranking
+	})
+}
+
+function loadSynonyms(rootDir: string): { synonyms?: SynonymDictionary; synonymsPath?: string } {
+	for (const fileName of SYNONYMS_FILENAMES) {
+		const synonymsPath = path.join(rootDir, fileName)
+		let contents: string
+		try {
+			contents = fs.readFileSync(synonymsPath, "utf-8")
+		} catch {
+			continue
+		}
+		try {
+			return { synonyms: parseSynonyms(contents, fileName), synonymsPath }
+		} catch (error) {
+			throw new Error(`Invalid synonyms file ${synonymsPath}: ${error instanceof Error ? error.message : String(error)}`)
+		}
+	}
+	return {}
+}
+
+function resolveGlossaryPath(glossary: string | undefined, rootDir: string): string | undefined {
+	if (glossary === undefined) {
+		return GLOSSARY_FILENAMES.map((fileName) => path.join(rootDir, fileName)).find((candidate) => fs.existsSync(candidate))
+	}
+
+	// Published packages and worker bundles keep the glossary at the same place relative to the config
+	const glossaryPath = path.resolve(rootDir, glossary)
+	const relativePath = path.relative(rootDir, glossaryPath)
+	if (relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+		throw new Error(`Glossary cannot be outside the config folder: ${glossary}`)
+	}
+	if (!fs.existsSync(glossaryPath)) {
+		throw new Error(`Glossary not found: ${glossaryPath}`)
+	}
+	return glossaryPath
+}
+
+function resolveLocales(locales: string[] | undefined, defaultLocale: string | undefined): { locales?: string[]; defaultLocale?: string } {
+	if (!locales) {
+		if (defaultLocale) {
+			throw new Error("defaultLocale requires a locales list.")
+		}
+		return {}
+	}
+
+	for (const locale of locales) {
+		if (!ROOT_NAME_PATTERN.test(locale)) {
+			throw new Error(`Locale "${locale}" may only contain letters, digits, ".", "_" and "-".`)
+		}
+	}
+	if (defaultLocale && !locales.includes(defaultLocale)) {
+		throw new Error(`defaultLocale "${defaultLocale}" is not one of the configured locales: ${locales.join(", ")}.`)
+	}
+	return { locales: [...new Set(locales)], defaultLocale: defaultLocale ?? locales[0] }
+}
+
+function readIgnoreFile(docRoot: string): string[] {
+	try {
+		return fs.readFileSync(path.join(docRoot, IGNORE_FILENAME), "utf-8").split("\n")
+	} catch {
+		return []
+	}
+}
+
 function ensureDirectoryExists(absolutePath: string): void {
 	const stats = fs.statSync(absolutePath)
 	if (!stats.isDirectory()) {
@@ -82,40 +335,60 @@ export function loadConfig(options: { configPath: string; templatePath: string;
 	const rawConfig = configSchema.parse(parsedJson)
 
 	// Use --docs option if provided, otherwise use config file value or default
-	let docRoot: DocRoot
+	let defaultRoots: DocRoot[]
 	if (options.docs) {
 		if (path.isAbsolute(options.docs)) {
 			// Absolute path: use as-is
-			docRoot = {
-				relativePath: path.basename(options.docs),
-				absolutePath: path.resolve(options.docs)
-			}
+			defaultRoots = [
+				{
+					name: path.basename(options.docs),
+					relativePath: path.basename(options.docs),
+					absolutePath: path.resolve(options.docs)
+				}
+			]
 		} else {
 			// Relative path: normalize and resolve from config directory
-			const docsDir = normalizeDocDir(options.docs)
-			docRoot = {
-				relativePath: docsDir,
-				absolutePath: path.resolve(rootDir, docsDir)
-			}
+			defaultRoots = resolveDocRoots(options.docs, rootDir)
 		}
 	} else {
 		// Use config file value or default
-		const docsDir = normalizeDocDir(rawConfig.docs ?? "docs")
-		docRoot = {
-			relativePath: docsDir,
-			absolutePath: path.resolve(rootDir, docsDir)
-		}
+		defaultRoots = resolveDocRoots(rawConfig.docs, rootDir)
 	}
 
-	ensureDirectoryExists(docRoot.absolutePath)
+	const versions = resolveVersions(rawConfig.versions, options.docs ?? rawConfig.docs, defaultRoots, rootDir)
+	const docRoots = versions?.[0].docRoots ?? defaultRoots
+
+	const ignore = rawConfig.ignore ?? []
+	const { locales, defaultLocale } = resolveLocales(rawConfig.locales, rawConfig.defaultLocale)
+	const { synonyms, synonymsPath } = loadSynonyms(rootDir)
+	const stopWords = rawConfig.stopWords
+	const ranking = rawConfig.ranking
+	// Snapshot roots are prepared once their git tag has been extracted
+	for (const root of versions ? versions.filter((version) => !version.tag).flatMap((version) => version.docRoots) : docRoots) {
+		prepareDocRoot(root, { ignore, locales, synonyms, stopWords, ranking })
+	}
 
 	const name = rawConfig.name.trim().length === 0 ? "Acme" : rawConfig.name.trim()
-	const toolName = createToolName(rawConfig.name, rawConfig.package)
+	const toolNameBase = createToolNameBase(rawConfig.name, rawConfig.package)
+	const toolName = toolNameBase ? `search${toolNameBase}` : DEFAULT_TOOL_NAME
+	const searchToolName = toolNameBase ? `search${toolNameBase}Docs` : DEFAULT_SEARCH_TOOL_NAME
+	const examplesToolName = toolNameBase ? `search${toolNameBase}Examples` : DEFAULT_EXAMPLES_TOOL_NAME
+	const changesToolName = toolNameBase ? `search${toolNameBase}Changes` : DEFAULT_CHANGES_TOOL_NAME
+	const glossaryToolName = toolNameBase ? `define${toolNameBase}Term` : DEFAULT_GLOSSARY_TOOL_NAME
+	const glossaryPath = resolveGlossaryPath(rawConfig.glossary, rootDir)
 	const title = `${name} Documentation Server`
 
 	// templatePath is required
 	const template = fs.readFileSync(options.templatePath, "utf-8")
-	const description = template.replace(/{{NAME}}/g, name).replace(/{{TOOL_NAME}}/g, toolName)
+	const description = template
+		// The glossary tool is only registered with a glossary, so text between its block markers is dropped without one
+		.replace(/{{#GLOSSARY_TOOL_NAME}}([\s\S]*?){{\/GLOSSARY_TOOL_NAME}}/g, (_block, text: string) => (glossaryPath ? text : ""))
+		.replace(/{{NAME}}/g, name)
+		.replace(/{{TOOL_NAME}}/g, toolName)
+		.replace(/{{SEARCH_TOOL_NAME}}/g, searchToolName)
+		.replace(/{{EXAMPLES_TOOL_NAME}}/g, examplesToolName)
+		.replace(/{{CHANGES_TOOL_NAME}}/g, changesToolName)
+		.replace(/{{GLOSSARY_TOOL_NAME}}/g, glossaryToolName)
 
 	return {
 		name,
@@ -123,8 +396,28 @@ export function loadConfig(options: { configPath: string; templatePath: string;
 		packageName: rawConfig.package,
 		version: rawConfig.version,
 		tool: toolName,
+		searchTool: searchToolName,
+		examplesTool: examplesToolName,
+		changesTool: changesToolName,
+		glossaryTool: glossaryToolName,
 		description,
-		docRoot,
+		docRoot: docRoots[0],
+		docRoots,
+		versions,
+		locales,
+		defaultLocale,
+		maxResponseSize: rawConfig.maxResponseSize,
+		maxTokens: rawConfig.maxTokens,
+		ignore,
+		synonyms,
+		synonymsPath,
+		stopWords,
+		ranking,
+		redirects: rawConfig.redirects,
+		glossaryPath,
+		featured: (rawConfig.featured ?? DEFAULT_FEATURED_SECTIONS).map((section) =>
+			typeof section === "string" ? { path: section, depth: 1, descriptions: false } : { path: section.path, depth: section.depth ?? 1, descriptions: section.descriptions ?? false }
+		),
 		configPath,
 		rootDir,
 		raw: rawConfig
@@ -0,0 +1,121 @@
+import fs from "node:fs/promises"
+import { parse } from "yaml"
+import { z } from "zod"
+import { editDistance, isMarkdownFile, walkMdFiles } from "./index.js"
+import { extractDefinitions, splitFrontmatter } from "./markdown.js"
+import { analyze } from "./search.js"
+
+// Looked up next to mcp-docs-server.json, in this order, unless the config names a glossary
+export const GLOSSARY_FILENAMES = ["glossary.json", "glossary.yaml", "glossary.yml"]
+
+// Fuzzy matches may differ from the requested term by this share of its length
+const MAX_FUZZY_DISTANCE_RATIO = 0.34
+const MAX_FUZZY_MATCHES = 3
+
+const glossaryCache = new Map<string, Promise<GlossaryEntry[]>>()
+
+const glossaryFileSchema = z.object({
+	terms: z.record(
+		z.union([
+			z.string(),
+			z.object({
+				definition: z.string(),
+				aliases: z.array(z.string()).optional()
+			})
+		])
+	)
+})
+
+export interface GlossaryEntry {
+	term: string
+	definition: string
+	aliases: string[]
+	// Absolute path of the terms file or Markdown page defining the term
+	source: string
+	// Line of the term within the body of a Markdown source, matching the docs tool's line offsets
+	line?: number
+}
+
+export interface GlossaryMatch {
+	entry: GlossaryEntry
+	match: "exact" | "fuzzy"
+}
+
+// Parses a terms file; each entry maps a term to its definition, or to a definition and aliases
+export function parseGlossary(contents: string, fileName: string): Array<Omit<GlossaryEntry, "source">> {
+	const data: unknown = fileName.endsWith(".json") ? JSON.parse(contents) : parse(contents)
+	const file = glossaryFileSchema.parse(data)
+
+	return Object.entries(file.terms).map(([term, value]) =>
+		typeof value === "string" ? { term, definition: value.trim(), aliases: [] } : { term, definition: value.definition.trim(), aliases: value.aliases ?? [] }
+	)
+}
+
+// Entries from a terms file, or from the definition lists of a Markdown page or every page in a folder
+export async function loadGlossary(glossaryPath: string): Promise<GlossaryEntry[]> {
+	let cached = glossaryCache.get(glossaryPath)
+	if (!cached) {
+		cached = readGlossary(glossaryPath)
+		glossaryCache.set(glossaryPath, cached)
+	}
+	return cached
+}
+
+async function readGlossary(glossaryPath: string): Promise<GlossaryEntry[]> {
+	const stats = await fs.stat(glossaryPath)
+	if (!stats.isDirectory() && !isMarkdownFile(glossaryPath)) {
+		try {
+			return parseGlossary(await fs.readFile(glossaryPath, "utf-8"), glossaryPath).map((entry) => ({ ...entry, source: glossaryPath }))
+		} catch (error) {
+			throw new Error(`Invalid glossary file ${glossaryPath}: ${error instanceof Error ? error.message : String(error)}`)
+		}
+	}
+
+	const files: string[] = []
+	if (stats.isDirectory()) {
+		for await (const filePath of walkMdFiles(glossaryPath)) {
+			files.push(filePath)
+		}
+	} else {
+		files.push(glossaryPath)
+	}
+
+	const entries: GlossaryEntry[] = []
+	for (const filePath of files) {
+		const { body } = splitFrontmatter(await fs.readFile(filePath, "utf-8"))
+		for (const { term, definition, line } of extractDefinitions(body)) {
+			entries.push({ term, definition, aliases: [], source: filePath, line })
+		}
+	}
+	return entries
+}
+
+// Entries whose term or alias matches after stemming, or else the closest terms by edit distance and containment
+export function findGlossaryEntries(entries: GlossaryEntry[], query: string): GlossaryMatch[] {
+	const queryKey = analyze(query).join(" ")
+	const exact = queryKey ? entries.filter((entry) => [entry.term, ...entry.aliases].some((name) => analyze(name).join(" ") === queryKey)) : []
+	if (exact.length > 0) {
+		return exact.map((entry) => ({ entry, match: "exact" }))
+	}
+
+	const normalizedQuery = normalizeTerm(query)
+	const maxDistance = Math.max(1, Math.floor(normalizedQuery.length * MAX_FUZZY_DISTANCE_RATIO))
+	return entries
+		.map((entry) => ({ entry, distance: Math.min(...[entry.term, ...entry.aliases].map((name) => termDistance(normalizeTerm(name), normalizedQuery))) }))
+		.filter(({ distance }) => distance <= maxDistance)
+		.sort((a, b) => a.distance - b.distance || a.entry.term.localeCompare(b.entry.term))
+		.slice(0, MAX_FUZZY_MATCHES)
+		.map(({ entry }) => ({ entry, match: "fuzzy" }))
+}
+
+function normalizeTerm(term: string): string {
+	return term.toLowerCase().replace(/\s+/g, " ").trim()
+}
+
+// A term containing the query, or contained in it, counts as one edit away ("auth" finds "OAuth")
+function termDistance(name: string, query: string): number {
+	if (Math.min(name.length, query.length) >= 3 && (name.includes(query) || query.includes(name))) {
+		return name === query ? 0 : 1
+	}
+	return editDistance(name, query)
+}
@@ -0,0 +1,330 @@
+import { execFile } from "node:child_process"
+import fs from "node:fs/promises"
+import path from "node:path"
+import { promisify } from "node:util"
+import { walkMdFiles } from "./index.js"
+import { extractHeadings, splitFrontmatter, summarizeProse } from "./markdown.js"
+
+const execFileAsync = promisify(execFile)
+
+// Written next to the pages of every published doc root, which lose their git history and file times when packaged
+export const CHANGELOG_MANIFEST_FILENAME = "changelog-manifest.json"
+const CHANGELOG_MANIFEST_FORMAT = 1
+
+const MAX_CHANGES_PER_DOCUMENT = 10
+const MAX_LOG_COMMITS = 1000
+const GIT_MAX_BUFFER = 64 * 1024 * 1024
+// Histories are read again after this long, so a running server picks up new commits and edits
+const HISTORY_CACHE_TTL_MS = 60 * 1000
+
+const historyCache = new Map<string, { history: Promise<DocHistory>; expires: number }>()
+
+// Where a folder's pages are tracked: git runs in cwd and reads path, relative to cwd, at revision. Tag snapshots are
+// extracted outside git, so their history is read from the tag in the checkout instead of from the snapshot folder
+export interface GitSource {
+	cwd: string
+	revision: string
+	path: string
+}
+
+export interface SectionChange {
+	// Absent for text above the first heading
+	heading?: string
+	slug?: string
+	status: "added" | "changed" | "removed"
+	summary?: string
+}
+
+export interface DocChange {
+	// ISO 8601 date of the commit, or of the file's modification time without git
+	date: string
+	commit?: string
+	sections: SectionChange[]
+}
+
+export interface DocumentHistory {
+	path: string
+	title?: string
+	// Newest first
+	changes: DocChange[]
+}
+
+export interface DocHistory {
+	source: "git" | "mtime"
+	// Git tag -> ISO date of its commit, so versions can be used as a starting point
+	tags: Record<string, string>
+	documents: DocumentHistory[]
+}
+
+export interface ChangedDocument {
+	path: string
+	title?: string
+	date: string
+	commits: number
+	sections: SectionChange[]
+}
+
+interface GitFileCommit {
+	commit: string
+	date: string
+	// Blobs of the file before and after the commit; null where it did not exist
+	before: string | null
+	after: string | null
+}
+
+interface Section {
+	heading?: string
+	slug?: string
+	content: string
+}
+
+export async function loadDocHistory(baseDir: string, source?: GitSource): Promise<DocHistory> {
+	const key = source ? `${baseDir}\0${source.revision}` : baseDir
+	const cached = historyCache.get(key)
+	if (cached && cached.expires > Date.now()) {
+		return cached.history
+	}
+
+	const history = readDocHistory(baseDir, source)
+	historyCache.set(key, { history, expires: Date.now() + HISTORY_CACHE_TTL_MS })
+	// A failed read, such as a transient git error, is retried on the next call
+	history.catch(() => {
+		if (historyCache.get(key)?.history === history) {
+			historyCache.delete(key)
+		}
+	})
+	return history
+}
+
+// Published artifacts carry a manifest; checkouts read git history, and anything else falls back to file times
+async function readDocHistory(baseDir: string, source?: GitSource): Promise<DocHistory> {
+	const manifest = await readManifest(baseDir)
+	if (manifest) {
+		return manifest
+	}
+	return collectDocHistory(baseDir, source)
+}
+
+// A missing, unreadable, or corrupt manifest counts as no manifest
+async function readManifest(baseDir: string): Promise<DocHistory | null> {
+	const contents = await fs.readFile(path.join(baseDir, CHANGELOG_MANIFEST_FILENAME), "utf-8").catch(() => null)
+	if (!contents) {
+		return null
+	}
+	try {
+		const manifest = JSON.parse(contents) as Partial<DocHistory> & { format?: number }
+		if (manifest.format !== CHANGELOG_MANIFEST_FORMAT || !manifest.source || !manifest.tags || !Array.isArray(manifest.documents)) {
+			return null
+		}
+		return { source: manifest.source, tags: manifest.tags, documents: manifest.documents }
+	} catch {
+		return null
+	}
+}
+
+export async function collectDocHistory(baseDir: string, source: GitSource = { cwd: baseDir, revision: "HEAD", path: "." }): Promise<DocHistory> {
+	const commitsByPath = await readGitLog(source)
+	const tags = commitsByPath ? await readGitTags(source.cwd) : {}
+	const headBlobs = commitsByPath ? await readRevisionBlobs(source) : new Map<string, string>()
+	const files: string[] = []
+	for await (const filePath of walkMdFiles(baseDir)) {
+		files.push(filePath)
+	}
+
+	// Every version any listed commit or HEAD holds, read in one pass
+	const relativePaths = files.map((filePath) => path.relative(baseDir, filePath).split(path.sep).join("/"))
+	const blobIds = relativePaths.flatMap((relativePath) => [
+		...(commitsByPath?.get(relativePath) ?? []).flatMap((commit) => [commit.before, commit.after]),
+		headBlobs.get(relativePath)
+	])
+	const blobs = commitsByPath ? await readBlobs(source.cwd, blobIds.filter((id): id is string => Boolean(id))) : new Map<string, string>()
+	const readBlob = (id: string | null | undefined) => (id ? (blobs.get(id) ?? null) : null)
+	const documents: DocumentHistory[] = []
+
+	for (const [index, filePath] of files.entries()) {
+		const relativePath = relativePaths[index]
+		const current = await fs.readFile(filePath, "utf-8")
+		const title = splitFrontmatter(current).data.title
+		const changes: DocChange[] = (commitsByPath?.get(relativePath) ?? []).map(({ commit, date, before, after }) => ({
+			date,
+			commit,
+			sections: diffSections(readBlob(before), readBlob(after))
+		}))
+
+		// Uncommitted edits, new files, and every file outside git count as one change at the file's modification time;
+		// snapshots match their tag, so they have none
+		const committed = readBlob(headBlobs.get(relativePath))
+		if (committed !== current) {
+			const { mtime } = await fs.stat(filePath)
+			changes.unshift({ date: mtime.toISOString(), sections: diffSections(committed, current) })
+		}
+
+		documents.push({ path: relativePath, title: typeof title === "string" ? title : undefined, changes })
+	}
+
+	return { source: commitsByPath ? "git" : "mtime", tags, documents }
+}
+
+export function serializeDocHistory(history: DocHistory): string {
+	return JSON.stringify({ format: CHANGELOG_MANIFEST_FORMAT, ...history })
+}
+
+// Documents changed after since, newest first, with the sections changed over that period
+export function findChangesSince(history: DocHistory, since: Date): ChangedDocument[] {
+	const changed: ChangedDocument[] = []
+	for (const document of history.documents) {
+		const recent = document.changes.filter((change) => Date.parse(change.date) > since.getTime())
+		if (recent.length === 0) {
+			continue
+		}
+
+		// Replay the changes oldest first, so a section added and then edited stays "added"
+		const sections = new Map<string, SectionChange>()
+		for (const change of [...recent].reverse()) {
+			for (const section of change.sections) {
+				const key = section.slug ?? ""
+				const previous = sections.get(key)
+				if (previous?.status === "added" && section.status === "removed") {
+					sections.delete(key)
+				} else {
+					sections.set(key, { ...section, status: previous?.status === "added" && section.status === "changed" ? "added" : section.status })
+				}
+			}
+		}
+
+		changed.push({ path: document.path, title: document.title, date: recent[0].date, commits: recent.filter((change) => change.commit).length, sections: [...sections.values()] })
+	}
+	return changed.sort((a, b) => Date.parse(b.date) - Date.parse(a.date) || a.path.localeCompare(b.path))
+}
+
+// Commits up to the source's revision touching each Markdown file under its path, newest first, with the file's blob
+// before and after each, keyed by path within the folder; null when the folder is not in a git checkout
+async function readGitLog(source: GitSource): Promise<Map<string, GitFileCommit[]> | null> {
+	const stdout = await execFileAsync(
+		"git",
+		["-C", source.cwd, "-c", "core.quotePath=false", "log", `--max-count=${MAX_LOG_COMMITS}`, "--relative", "--raw", "--no-renames", "--no-abbrev", "--format=%x00%H%x09%cI", source.revision, "--", source.path],
+		{ maxBuffer: GIT_MAX_BUFFER }
+	)
+		.then((result) => result.stdout)
+		.catch(() => null)
+	if (stdout === null) {
+		return null
+	}
+
+	const commitsByPath = new Map<string, GitFileCommit[]>()
+	for (const entry of stdout.split("\0").slice(1)) {
+		const [header = "", ...lines] = entry.split("\n")
+		const [commit = "", date = ""] = header.split("\t")
+		for (const line of lines) {
+			// :<old mode> <new mode> <old blob> <new blob> <status>\t<path>; added and deleted files have an all-zero blob
+			const match = /^:\S+ \S+ (\S+) (\S+) \S+\t(.+)$/.exec(line)
+			const file = match ? toFolderPath(source, match[3]) : null
+			if (!match || file === null) {
+				continue
+			}
+			const commits = commitsByPath.get(file) ?? []
+			if (commits.length < MAX_CHANGES_PER_DOCUMENT) {
+				commits.push({ commit, date, before: toBlobId(match[1]), after: toBlobId(match[2]) })
+				commitsByPath.set(file, commits)
+			}
+		}
+	}
+	return commitsByPath
+}
+
+function toBlobId(id: string): string | null {
+	return /^0+$/.test(id) ? null : id
+}
+
+// Git prints paths relative to cwd; pages are keyed relative to the folder itself
+function toFolderPath(source: GitSource, file: string): string | null {
+	if (source.path === ".") {
+		return file
+	}
+	const prefix = `${source.path.replace(/\/$/, "")}/`
+	return file.startsWith(prefix) ? file.slice(prefix.length) : null
+}
+
+// Blob of every file under the source's path at its revision; empty before the first commit
+async function readRevisionBlobs(source: GitSource): Promise<Map<string, string>> {
+	const stdout = await execFileAsync("git", ["-C", source.cwd, "ls-tree", "-r", "-z", source.revision, "--", source.path], { maxBuffer: GIT_MAX_BUFFER })
+		.then((result) => result.stdout)
+		.catch(() => "")
+	const blobs = new Map<string, string>()
+	for (const entry of stdout.split("\0").filter(Boolean)) {
+		// <mode> <type> <blob>\t<path>, relative to cwd
+		const [meta = "", file = ""] = entry.split("\t")
+		const [, type, id] = meta.split(" ")
+		const folderPath = toFolderPath(source, file)
+		if (type === "blob" && id && folderPath !== null) {
+			blobs.set(folderPath, id)
+		}
+	}
+	return blobs
+}
+
+// Contents of the given blobs through a single git cat-file process
+async function readBlobs(cwd: string, ids: string[]): Promise<Map<string, string>> {
+	const pending = execFileAsync("git", ["-C", cwd, "cat-file", "--batch"], { encoding: "buffer", maxBuffer: GIT_MAX_BUFFER * 4 })
+	pending.child.stdin?.end([...new Set(ids)].map((id) => `${id}\n`).join(""))
+	const { stdout: output } = await pending
+
+	// Each object is "<id> <type> <size>\n<contents>\n", or "<id> missing\n"
+	const blobs = new Map<string, string>()
+	let offset = 0
+	while (offset < output.length) {
+		const headerEnd = output.indexOf(0x0a, offset)
+		const [id = "", type, size] = output.toString("utf-8", offset, headerEnd).split(" ")
+		offset = headerEnd + 1
+		if (type === "missing" || size === undefined) {
+			continue
+		}
+		blobs.set(id, output.toString("utf-8", offset, offset + Number(size)))
+		offset += Number(size) + 1
+	}
+	return blobs
+}
+
+async function readGitTags(baseDir: string): Promise<Record<string, string>> {
+	const { stdout } = await execFileAsync("git", ["-C", baseDir, "for-each-ref", "refs/tags", "--format=%(refname:short)%09%(*committerdate:iso-strict)%09%(committerdate:iso-strict)"])
+	const tags: Record<string, string> = {}
+	for (const line of stdout.split("\n").filter(Boolean)) {
+		// Annotated tags date from the commit they point at, lightweight ones from their own commit
+		const [name = "", peeledDate, date] = line.split("\t")
+		tags[name] = peeledDate || date || ""
+	}
+	return tags
+}
+
+// Sections whose text differs between two versions of a page; without a previous version every section counts as added
+function diffSections(previous: string | null, current: string | null): SectionChange[] {
+	const before = new Map((previous === null ? [] : splitSections(previous)).map((section) => [section.slug ?? "", section]))
+	const after = current === null ? [] : splitSections(current)
+	const changes: SectionChange[] = []
+
+	for (const section of after) {
+		const old = before.get(section.slug ?? "")
+		before.delete(section.slug ?? "")
+		if (old?.content === section.content) {
+			continue
+		}
+		changes.push({ heading: section.heading, slug: section.slug, status: old ? "changed" : "added", summary: summarizeProse(section.content) })
+	}
+	for (const section of before.values()) {
+		changes.push({ heading: section.heading, slug: section.slug, status: "removed" })
+	}
+	return changes
+}
+
+// Each heading's own text up to the next heading of any level, plus the text above the first heading
+function splitSections(content: string): Section[] {
+	const { body } = splitFrontmatter(content)
+	const lines = body.split("\n")
+	const headings = extractHeadings(body)
+	const sections: Section[] = [{ content: lines.slice(0, headings[0] ? headings[0].line - 1 : lines.length).join("\n").trim() }]
+	headings.forEach((heading, index) => {
+		const end = headings[index + 1] ? headings[index + 1].line - 1 : lines.length
+		sections.push({ heading: heading.text, slug: heading.slug, content: lines.slice(heading.line, end).join("\n").trim() })
+	})
+	return sections.filter((section) => section.heading !== undefined || section.content.length > 0)
+}
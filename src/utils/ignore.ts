@@ -0,0 +1,118 @@
+export const IGNORE_FILENAME = ".docsignore"
+
+// Returns true when a doc-root-relative path should be left out
+export type IgnoreMatcher = (relativePath: string, isDirectory: boolean) => boolean
+
+interface IgnoreRule {
+	pattern: RegExp
+	negated: boolean
+	directoryOnly: boolean
+}
+
+// Parses gitignore syntax: comments, negation, anchoring with "/", directory-only patterns, and *, ?, ** and [...] globs
+export function parseIgnoreRules(patterns: string[]): IgnoreRule[] {
+	const rules: IgnoreRule[] = []
+
+	for (const rawPattern of patterns) {
+		let pattern = rawPattern.replace(/\r$/, "").replace(/(?<!\\)\s+$/, "")
+		if (pattern.length === 0 || pattern.startsWith("#")) {
+			continue
+		}
+
+		const negated = pattern.startsWith("!")
+		if (negated) {
+			pattern = pattern.slice(1)
+		} else if (pattern.startsWith("\\!") || pattern.startsWith("\\#")) {
+			pattern = pattern.slice(1)
+		}
+
+		const directoryOnly = pattern.endsWith("/")
+		pattern = pattern.replace(/\/+$/, "")
+		// A slash anywhere but the end anchors the pattern to the doc root
+		const anchored = pattern.includes("/")
+		pattern = pattern.replace(/^\//, "")
+		if (pattern.length === 0) {
+			continue
+		}
+
+		rules.push({ pattern: new RegExp(`^${anchored ? "" : "(?:.*/)?"}${globToRegExp(pattern)}$`), negated, directoryOnly })
+	}
+
+	return rules
+}
+
+export function createIgnoreMatcher(patterns: string[]): IgnoreMatcher {
+	const rules = parseIgnoreRules(patterns)
+	if (rules.length === 0) {
+		return () => false
+	}
+
+	const matches = (candidate: string, isDirectory: boolean): boolean => {
+		let ignored = false
+		for (const rule of rules) {
+			if ((!rule.directoryOnly || isDirectory) && rule.pattern.test(candidate)) {
+				ignored = !rule.negated
+			}
+		}
+		return ignored
+	}
+
+	return (relativePath, isDirectory) => {
+		const segments = relativePath
+			.replace(/\\/g, "/")
+			.split("/")
+			.filter((segment) => segment.length > 0 && segment !== ".")
+
+		// As in git, nothing inside an ignored directory can be re-included
+		for (let index = 1; index < segments.length; index += 1) {
+			if (matches(segments.slice(0, index).join("/"), true)) {
+				return true
+			}
+		}
+		return segments.length > 0 && matches(segments.join("/"), isDirectory)
+	}
+}
+
+function globToRegExp(glob: string): string {
+	let output = ""
+
+	for (let index = 0; index < glob.length; index += 1) {
+		const char = glob[index]
+
+		if (char === "*") {
+			if (glob[index + 1] === "*") {
+				const atSegmentStart = index === 0 || glob[index - 1] === "/"
+				const atSegmentEnd = index + 2 === glob.length || glob[index + 2] === "/"
+				if (atSegmentStart && atSegmentEnd) {
+					// "**/" matches zero or more directories; a trailing "**" matches everything below
+					output += index + 2 === glob.length ? ".*" : "(?:.*/)?"
+					index += 2
+					continue
+				}
+			}
+			output += "[^/]*"
+		} else if (char === "?") {
+			output += "[^/]"
+		} else if (char === "[") {
+			const close = glob.indexOf("]", index + 2)
+			if (close === -1) {
+				output += "\\["
+				continue
+			}
+			const body = glob.slice(index + 1, close).replace(/^!/, "^").replace(/\\/g, "\\\\")
+			output += `[${body}]`
+			index = close
+		} else if (char === "\\" && index + 1 < glob.length) {
+			index += 1
+			output += escapeRegExp(glob[index])
+		} else {
+			output += escapeRegExp(char)
+		}
+	}
+
+	return output
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&")
+}
@@ -1,7 +1,36 @@
 import fs from "node:fs/promises"
 import path from "node:path"
+import type { IgnoreMatcher } from "./ignore.js"
+import { createIgnoreMatcher } from "./ignore.js"
+import type { DocMetadata } from "./markdown.js"
+import { extractIncludes, extractLinks, formatFrontmatter, parseDocMetadata, renderMdxToMarkdown, rewriteIncludes, rewriteLinks, splitFrontmatter } from "./markdown.js"
+import type { QueryOptions, SearchDocument, SearchHit, SearchIndex, SearchRanking } from "./search.js"
+import { buildSearchIndex, createSnippet, querySearchIndex, segmentCjk } from "./search.js"
+import type { VectorIndex } from "./vectors.js"
+import { buildVectorIndex, findSimilarDocuments, parseVectorIndex, VECTOR_INDEX_FILENAME } from "./vectors.js"
 
 const mdFileCache = new Map<string, string[]>()
+const searchIndexCache = new Map<string, Promise<SearchIndex>>()
+const docMetadataCache = new Map<string, Promise<DocMetadata>>()
+const linkGraphCache = new Map<string, Promise<LinkGraph>>()
+const vectorIndexCache = new Map<string, Promise<VectorIndex>>()
+const redirectCache = new Map<string, Promise<Map<string, string>>>()
+// Ignore rules per absolute doc root, registered when the config is loaded
+const ignoreMatchers = new Map<string, IgnoreMatcher>()
+// Synonyms and stop words per absolute doc root, registered when the config is loaded
+const queryOptions = new Map<string, QueryOptions>()
+
+const MAX_INCLUDE_DEPTH = 5
+// Share of a hybrid score that comes from vector similarity; the rest is the keyword score relative to the best hit
+const HYBRID_VECTOR_WEIGHT = 0.4
+// Pages without any keyword match need at least this similarity to be returned
+const MIN_VECTOR_SIMILARITY = 0.3
+
+export interface LinkGraph {
+	// Keyed by doc-root-relative path; targets are existing documents only
+	linksTo: Map<string, string[]>
+	linkedFrom: Map<string, string[]>
+}
 
 export function fromPackageRoot(baseDir: string, ...segments: string[]): string {
 	return path.resolve(baseDir, ...segments)
@@ -12,6 +41,14 @@ export function sanitizePackageDirName(packageName: string): string {
 	return sanitized || "docs"
 }
 
+export function isMarkdownFile(name: string): boolean {
+	return /\.mdx?$/i.test(name)
+}
+
+export function isMdxFile(name: string): boolean {
+	return /\.mdx$/i.test(name)
+}
+
 export async function* walkMdFiles(dir: string): AsyncGenerator<string> {
 	if (mdFileCache.has(dir)) {
 		for (const file of mdFileCache.get(dir)!) {
@@ -25,12 +62,15 @@ export async function* walkMdFiles(dir: string): AsyncGenerator<string> {
 
 	for (const entry of entries) {
 		const fullPath = path.join(dir, entry.name)
+		if (await isExcludedEntry(fullPath, entry.isDirectory())) {
+			continue
+		}
 		if (entry.isDirectory()) {
 			for await (const file of walkMdFiles(fullPath)) {
 				filesInDir.push(file)
 				yield file
 			}
-		} else if (entry.isFile() && entry.name.endsWith(".md")) {
+		} else if (entry.isFile() && isMarkdownFile(entry.name)) {
 			filesInDir.push(fullPath)
 			yield fullPath
 		}
@@ -39,6 +79,60 @@ export async function* walkMdFiles(dir: string): AsyncGenerator<string> {
 	mdFileCache.set(dir, filesInDir)
 }
 
+export function registerIgnoreRules(docRoot: string, patterns: string[]): void {
+	ignoreMatchers.set(path.resolve(docRoot), createIgnoreMatcher(patterns))
+}
+
+export function registerQueryOptions(docRoot: string, options: QueryOptions): void {
+	queryOptions.set(path.resolve(docRoot), options)
+}
+
+// Query options of the doc root containing dir, which may be the root itself or a folder inside it such as a locale
+function findQueryOptions(dir: string): QueryOptions {
+	for (const [docRoot, options] of queryOptions) {
+		const relativePath = path.relative(docRoot, dir)
+		if (relativePath !== ".." && !relativePath.startsWith(`..${path.sep}`) && !path.isAbsolute(relativePath)) {
+			return options
+		}
+	}
+	return {}
+}
+
+// Whether a file or folder is excluded by ignore rules or by draft/hidden frontmatter. Hidden pages are
+// excluded from listings and search but stay readable, so direct reads pass includeHidden
+export async function isExcludedEntry(absolutePath: string, isDirectory: boolean, options: { includeHidden?: boolean } = {}): Promise<boolean> {
+	for (const [docRoot, isIgnored] of ignoreMatchers) {
+		const relativePath = path.relative(docRoot, absolutePath)
+		if (relativePath.length > 0 && !relativePath.startsWith(`..${path.sep}`) && relativePath !== ".." && !path.isAbsolute(relativePath) && isIgnored(relativePath, isDirectory)) {
+			return true
+		}
+	}
+
+	if (isDirectory || !isMarkdownFile(absolutePath)) {
+		return false
+	}
+	const metadata = await loadDocMetadata(absolutePath)
+	return metadata.draft === true || (metadata.hidden === true && !options.includeHidden)
+}
+
+// fs.cp filter for the publish and cloudflare commands: ignored files and drafts stay out of artifacts
+export async function isPublishedDocEntry(source: string): Promise<boolean> {
+	const stats = await fs.stat(source)
+	return !(await isExcludedEntry(source, stats.isDirectory(), { includeHidden: true }))
+}
+
+export async function loadDocMetadata(filePath: string): Promise<DocMetadata> {
+	let cached = docMetadataCache.get(filePath)
+	if (!cached) {
+		cached = fs
+			.readFile(filePath, "utf-8")
+			.then((content) => parseDocMetadata(splitFrontmatter(content).data))
+			.catch(() => ({}))
+		docMetadataCache.set(filePath, cached)
+	}
+	return cached
+}
+
 export function extractKeywordsFromPath(filePath: string): string[] {
 	const filename =
 		filePath
@@ -57,44 +151,190 @@ export function extractKeywordsFromPath(filePath: string): string[] {
 	return Array.from(keywords)
 }
 
+// Splits keywords on whitespace, and CJK text, which has no spaces between words, into bigrams. Double-quoted
+// phrases stay whole, quotes included, so search matches their words only next to each other
 export function normalizeKeywords(keywords: string[]): string[] {
-	return Array.from(new Set(keywords.flatMap((k) => k.split(/\s+/).filter(Boolean)).map((k) => k.toLowerCase())))
+	const normalized = keywords.flatMap((keyword) =>
+		Array.from(keyword.matchAll(/"([^"]+)"|(\S+)/g)).flatMap((match) => (match[1] !== undefined ? [`"${match[1].trim().toLowerCase()}"`] : segmentCjk(match[2].toLowerCase())))
+	)
+	return Array.from(new Set(normalized))
 }
 
-interface FileScore {
-	path: string
-	keywordMatches: Set<string>
-	totalMatches: number
-	titleMatches: number
-	pathRelevance: number
+export async function loadSearchIndex(baseDir: string): Promise<SearchIndex> {
+	let cached = searchIndexCache.get(baseDir)
+	if (!cached) {
+		cached = buildIndexForDir(baseDir)
+		searchIndexCache.set(baseDir, cached)
+	}
+	return cached
 }
 
-function calculatePathRelevance(filePath: string, keywords: string[]): number {
-	let relevance = 0
-	const pathLower = filePath.toLowerCase()
+async function buildIndexForDir(baseDir: string): Promise<SearchIndex> {
+	const documents: SearchDocument[] = []
 
-	if (pathLower.startsWith("reference/")) {
-		relevance += 2
+	for await (const filePath of walkMdFiles(baseDir)) {
+		try {
+			const content = await fs.readFile(filePath, "utf-8")
+			documents.push({
+				path: path.relative(baseDir, filePath).replace(/\\/g, "/"),
+				content: isMdxFile(filePath) ? renderMdxForIndex(content) : content
+			})
+		} catch {
+			// skip unreadable files
+		}
 	}
 
-	keywords.forEach((keyword) => {
-		if (pathLower.includes(keyword.toLowerCase())) {
-			relevance += 3
+	return buildSearchIndex(documents)
+}
+
+// Index MDX pages by their prose rather than their imports and component markup
+function renderMdxForIndex(content: string): string {
+	const { data, body } = splitFrontmatter(content)
+	try {
+		return `${Object.keys(data).length > 0 ? formatFrontmatter(data) : ""}\n${renderMdxToMarkdown(body)}`
+	} catch {
+		return content
+	}
+}
+
+// Resolves a link found in fromPath to a doc-root-relative path. External URLs, same-page anchors,
+// non-Markdown files and links that leave the doc root resolve to null
+export function resolveDocLink(fromPath: string, href: string): { path: string; anchor?: string } | null {
+	if (/^([a-z][a-z\d+.-]*:|\/\/|#)/i.test(href)) {
+		return null
+	}
+
+	const [target, anchor] = href.split("#", 2)
+	let linkPath = target.split("?")[0]
+	try {
+		linkPath = decodeURI(linkPath)
+	} catch {
+		// keep the raw path
+	}
+	if (path.posix.extname(linkPath) && !isMarkdownFile(linkPath)) {
+		return null
+	}
+
+	const resolved = linkPath.startsWith("/")
+		? path.posix.normalize(linkPath.slice(1))
+		: path.posix.join(path.posix.dirname(fromPath), linkPath)
+	if (resolved === ".." || resolved.startsWith("../")) {
+		return null
+	}
+
+	return { path: resolved.replace(/\/+$/, "") || ".", anchor: anchor || undefined }
+}
+
+// Expands include directives in content read from docPath (doc-root-relative). Targets go through the same
+// doc-root guard as links; cycles, excessive nesting and unreadable targets leave an HTML comment in place
+export async function expandIncludes(content: string, docPath: string, baseDir: string, chain: string[] = [docPath]): Promise<string> {
+	const targets = [...new Set(extractIncludes(content))]
+	if (targets.length === 0) {
+		return content
+	}
+
+	const expansions = new Map<string, string>()
+	await Promise.all(
+		targets.map(async (target) => {
+			const link = resolveDocLink(docPath, target)
+			let failure: string | undefined
+			if (!link || !isMarkdownFile(link.path)) {
+				failure = "target must be a Markdown file inside the documentation root"
+			} else if (await isExcludedEntry(path.join(baseDir, link.path), false, { includeHidden: true }).catch(() => false)) {
+				failure = "target is ignored or a draft"
+			} else if (chain.includes(link.path)) {
+				failure = `include cycle: ${[...chain, link.path].join(" -> ")}`
+			} else if (chain.length > MAX_INCLUDE_DEPTH) {
+				failure = `includes are nested more than ${MAX_INCLUDE_DEPTH} levels deep`
+			}
+
+			if (failure || !link) {
+				expansions.set(target, `<!-- include failed: ${target} (${failure}) -->`)
+				return
+			}
+
+			try {
+				const { body } = splitFrontmatter(await fs.readFile(path.join(baseDir, link.path), "utf-8"))
+				// Root-absolute links keep pointing at the right place once the text moves into the including file
+				const relinked = rewriteLinks(body, (href) => {
+					const resolved = resolveDocLink(link.path, href)
+					return resolved ? `/${resolved.path}${resolved.anchor ? `#${resolved.anchor}` : ""}` : undefined
+				})
+				expansions.set(target, (await expandIncludes(relinked, link.path, baseDir, [...chain, link.path])).trim())
+			} catch {
+				expansions.set(target, `<!-- include failed: ${target} (not found) -->`)
+			}
+		})
+	)
+
+	return rewriteIncludes(content, (target) => expansions.get(target) ?? target)
+}
+
+export async function loadLinkGraph(baseDir: string): Promise<LinkGraph> {
+	let cached = linkGraphCache.get(baseDir)
+	if (!cached) {
+		cached = buildLinkGraph(baseDir)
+		linkGraphCache.set(baseDir, cached)
+	}
+	return cached
+}
+
+async function buildLinkGraph(baseDir: string): Promise<LinkGraph> {
+	const bodies = new Map<string, string>()
+	for await (const filePath of walkMdFiles(baseDir)) {
+		try {
+			bodies.set(path.relative(baseDir, filePath).replace(/\\/g, "/"), splitFrontmatter(await fs.readFile(filePath, "utf-8")).body)
+		} catch {
+			// skip unreadable files
 		}
-	})
+	}
 
-	const highValue = ["guides", "getting-started", "architecture"]
-	if (highValue.some((segment) => pathLower.includes(segment))) {
-		relevance += 1
+	// Links may omit the extension or point at a folder's index page
+	const findDocument = (linkPath: string): string | undefined =>
+		[linkPath, `${linkPath}.md`, `${linkPath}.mdx`, `${linkPath}/index.md`, `${linkPath}/index.mdx`].find((candidate) => bodies.has(candidate))
+
+	const linksTo = new Map<string, string[]>()
+	const linkedFrom = new Map<string, string[]>()
+	for (const [docPath, body] of bodies) {
+		const targets = new Set<string>()
+		for (const href of extractLinks(body)) {
+			const link = resolveDocLink(docPath, href)
+			const target = link ? findDocument(link.path) : undefined
+			if (target && target !== docPath) {
+				targets.add(target)
+			}
+		}
+		linksTo.set(docPath, [...targets])
+		for (const target of targets) {
+			linkedFrom.set(target, [...(linkedFrom.get(target) ?? []), docPath])
+		}
 	}
 
-	return relevance
+	for (const sources of linkedFrom.values()) {
+		sources.sort()
+	}
+	return { linksTo, linkedFrom }
 }
 
-function calculateFinalScore(score: FileScore, totalKeywords: number): number {
-	const allKeywordsBonus = score.keywordMatches.size === totalKeywords ? 10 : 0
+// Old paths listed in redirect_from frontmatter -> the doc-root-relative path of the page listing them
+export async function loadRedirects(baseDir: string): Promise<Map<string, string>> {
+	let cached = redirectCache.get(baseDir)
+	if (!cached) {
+		cached = collectRedirects(baseDir)
+		redirectCache.set(baseDir, cached)
+	}
+	return cached
+}
 
-	return score.totalMatches * 1 + score.titleMatches * 3 + score.pathRelevance * 2 + score.keywordMatches.size * 5 + allKeywordsBonus
+async function collectRedirects(baseDir: string): Promise<Map<string, string>> {
+	const redirects = new Map<string, string>()
+	for await (const filePath of walkMdFiles(baseDir)) {
+		const metadata = await loadDocMetadata(filePath)
+		for (const from of metadata.redirect_from ?? []) {
+			redirects.set(from, path.relative(baseDir, filePath).replace(/\\/g, "/"))
+		}
+	}
+	return redirects
 }
 
 export async function searchDocumentContent(keywords: string[], baseDir: string): Promise<string[]> {
@@ -102,51 +342,214 @@ export async function searchDocumentContent(keywords: string[], baseDir: string)
 		return []
 	}
 
-	const fileScores = new Map<string, FileScore>()
+	const index = await loadSearchIndex(baseDir)
+	return (await rankDocuments(index, keywords, 10, baseDir)).map((hit) => hit.path)
+}
 
-	for await (const filePath of walkMdFiles(baseDir)) {
-		let content: string
-		try {
-			content = await fs.readFile(filePath, "utf-8")
-		} catch {
-			continue
+export async function loadVectorIndex(baseDir: string): Promise<VectorIndex> {
+	let cached = vectorIndexCache.get(baseDir)
+	if (!cached) {
+		cached = readVectorIndex(baseDir)
+		vectorIndexCache.set(baseDir, cached)
+	}
+	return cached
+}
+
+// Published artifacts ship precomputed vectors; source folders build them from the search index on first use
+async function readVectorIndex(baseDir: string): Promise<VectorIndex> {
+	const contents = await fs.readFile(path.join(baseDir, VECTOR_INDEX_FILENAME), "utf-8").catch(() => null)
+	return (contents ? parseVectorIndex(contents) : null) ?? buildVectorIndexForDir(baseDir)
+}
+
+export async function buildVectorIndexForDir(baseDir: string): Promise<VectorIndex> {
+	return buildVectorIndex(await loadSearchIndex(baseDir), findQueryOptions(baseDir).stopWords)
+}
+
+interface RankedHit extends SearchHit {
+	// Start of the most similar chunk, for hits found by vector similarity alone
+	line?: number
+}
+
+// Keyword hits, blended with vector similarity when the doc root uses hybrid ranking and the caller doesn't override it
+async function rankDocuments(index: SearchIndex, keywords: string[], limit: number, baseDir: string, ranking?: SearchRanking): Promise<RankedHit[]> {
+	const options = findQueryOptions(baseDir)
+	if ((ranking ?? options.ranking) !== "hybrid") {
+		return querySearchIndex(index, keywords, limit, options)
+	}
+
+	const keywordHits = querySearchIndex(index, keywords, index.documents.length, options)
+	const topScore = keywordHits[0]?.score ?? 1
+	const similarDocuments = findSimilarDocuments(await loadVectorIndex(baseDir), keywords.join(" "), options.stopWords)
+	const similarities = new Map(similarDocuments.map((document) => [document.path, document.similarity]))
+
+	const hits = new Map<string, RankedHit>(
+		keywordHits.map((hit) => [hit.path, { ...hit, score: (1 - HYBRID_VECTOR_WEIGHT) * (hit.score / topScore) + HYBRID_VECTOR_WEIGHT * (similarities.get(hit.path) ?? 0) }])
+	)
+	for (const document of similarDocuments) {
+		if (!hits.has(document.path) && document.similarity >= MIN_VECTOR_SIMILARITY) {
+			const title = index.documents.find((candidate) => candidate.path === document.path)?.title
+			hits.set(document.path, { path: document.path, title, score: HYBRID_VECTOR_WEIGHT * document.similarity, matchedTerms: [], line: document.line })
 		}
+	}
 
-		const lines = content.split("\n")
-		lines.forEach((lineText) => {
-			const lowerLine = lineText.toLowerCase()
-			for (const keyword of keywords) {
-				if (!lowerLine.includes(keyword.toLowerCase())) {
-					continue
-				}
+	return Array.from(hits.values())
+		.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+		.slice(0, limit)
+}
+
+export interface DocumentSearchResult extends SearchHit {
+	snippet: string
+}
+
+export interface SearchRoot {
+	absolutePath: string
+	// Prepended to result paths as `namespace:` when several roots are searched together
+	namespace?: string
+}
+
+export function toSearchRoots(roots: Array<{ name: string; absolutePath: string }>): SearchRoot[] {
+	return roots.map((root) => ({ absolutePath: root.absolutePath, namespace: roots.length > 1 ? root.name : undefined }))
+}
+
+function qualifySearchPath(root: SearchRoot, docPath: string): string {
+	return root.namespace ? `${root.namespace}:${docPath}` : docPath
+}
+
+// Searches every root and merges the hits by score
+export async function searchDocuments(query: string, roots: SearchRoot[], limit = 10, ranking?: SearchRanking): Promise<DocumentSearchResult[]> {
+	const keywords = normalizeKeywords([query])
+	if (keywords.length === 0) {
+		return []
+	}
 
-				const relativePath = path.relative(baseDir, filePath).replace(/\\/g, "/")
-				if (!fileScores.has(relativePath)) {
-					fileScores.set(relativePath, {
-						path: relativePath,
-						keywordMatches: new Set(),
-						totalMatches: 0,
-						titleMatches: 0,
-						pathRelevance: calculatePathRelevance(relativePath, keywords)
-					})
+	const results = await Promise.all(
+		roots.map(async (root) => {
+			const index = await loadSearchIndex(root.absolutePath)
+			const contentByPath = new Map(index.documents.map((document) => [document.path, document.content]))
+
+			return (await rankDocuments(index, keywords, limit, root.absolutePath, ranking)).map(({ line, ...hit }) => {
+				const content = contentByPath.get(hit.path) ?? ""
+				return {
+					...hit,
+					path: qualifySearchPath(root, hit.path),
+					// Hits without matched words show the start of their most similar chunk instead
+					snippet: createSnippet(line ? content.split("\n").slice(line - 1).join("\n") : content, hit.matchedTerms)
 				}
+			})
+		})
+	)
 
-				const score = fileScores.get(relativePath)!
-				score.keywordMatches.add(keyword)
-				score.totalMatches += 1
+	return results
+		.flat()
+		.sort((a, b) => b.score - a.score)
+		.slice(0, limit)
+}
 
-				if (lowerLine.includes("#") || lowerLine.includes("title")) {
-					score.titleMatches += 1
+export type PageUnit = "lines" | "characters"
+
+export interface PageOptions {
+	offset?: number
+	limit?: number
+	unit?: PageUnit
+	// Hard cap on returned characters, applied after offset/limit
+	maxSize?: number
+}
+
+export interface ContentPage {
+	content: string
+	unit: PageUnit
+	totalLines: number
+	totalCharacters: number
+	// Half-open range [start, end) in the requested unit
+	start: number
+	end: number
+	nextOffset?: number
+}
+
+export function paginateContent(content: string, options: PageOptions = {}): ContentPage {
+	const unit = options.unit ?? "lines"
+	const lines = content.split("\n")
+	const total = unit === "lines" ? lines.length : content.length
+	const start = Math.min(Math.max(options.offset ?? 0, 0), total)
+	let end = options.limit === undefined ? total : Math.min(start + options.limit, total)
+	let pageContent: string
+
+	if (unit === "lines") {
+		if (options.maxSize !== undefined && start < end && lines[start].length > options.maxSize) {
+			// A single line over the cap is cut by characters, with a character offset that resumes inside it
+			const characterStart = lines.slice(0, start).reduce((sum, line) => sum + line.length + 1, 0)
+			return paginateContent(content, { offset: characterStart, limit: options.maxSize, unit: "characters" })
+		}
+		if (options.maxSize !== undefined) {
+			// Keep whole lines within the size cap; the first line always fits, as longer ones are cut by characters above
+			let size = 0
+			for (let index = start; index < end; index += 1) {
+				size += lines[index].length + 1
+				if (size > options.maxSize && index > start) {
+					end = index
+					break
 				}
 			}
-		})
+		}
+		pageContent = lines.slice(start, end).join("\n")
+	} else {
+		if (options.maxSize !== undefined) {
+			end = Math.min(end, start + options.maxSize)
+		}
+		pageContent = content.slice(start, end)
+	}
+
+	return {
+		content: pageContent,
+		unit,
+		totalLines: lines.length,
+		totalCharacters: content.length,
+		start,
+		end,
+		nextOffset: end < total ? end : undefined
 	}
+}
 
-	const validFiles = Array.from(fileScores.values())
-		.sort((a, b) => calculateFinalScore(b, keywords.length) - calculateFinalScore(a, keywords.length))
-		.slice(0, 10)
+export function editDistance(a: string, b: string): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
 
-	return validFiles.map((score) => score.path)
+	for (let i = 1; i <= a.length; i += 1) {
+		const current = [i]
+		for (let j = 1; j <= b.length; j += 1) {
+			const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+			current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution))
+		}
+		previous = current
+	}
+
+	return previous[b.length]
+}
+
+// Closest known paths by edit distance, ignoring case, Markdown extensions and, when the request has none, root namespaces
+export function findClosestPaths(requested: string, knownPaths: string[], limit = 3): string[] {
+	const namespacePattern = /^[^:/]+:/
+	const ignoreNamespace = !namespacePattern.test(requested)
+	const comparable = (value: string) =>
+		normalizeDocPath((ignoreNamespace ? value.replace(namespacePattern, "") : value).split("#")[0])
+			.toLowerCase()
+			.replace(/\.mdx?$/, "")
+	const target = comparable(requested)
+	if (target.length === 0) {
+		return []
+	}
+	const maxDistance = Math.max(2, Math.floor(target.length / 2))
+
+	return knownPaths
+		.map((knownPath) => ({ path: knownPath, distance: editDistance(target, comparable(knownPath)) }))
+		.filter(({ distance }) => distance <= maxDistance)
+		.sort((a, b) => a.distance - b.distance || a.path.localeCompare(b.path))
+		.slice(0, limit)
+		.map(({ path: knownPath }) => knownPath)
+}
+
+// Rough heuristic (~4 characters per token) that avoids shipping a tokenizer
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4)
 }
 
 export function normalizeDocPath(docPath: string): string {
@@ -166,7 +569,37 @@ export function normalizeDocPath(docPath: string): string {
 	return normalized
 }
 
-export async function getMatchingPaths(pathInput: string, queryKeywords: string[] | undefined, baseDirs: string[]): Promise<string> {
+// Finds the redirect for an old path: an exact match, ignoring extension and case, or else the longest
+// redirected folder containing it, with the rest of the path carried over to the new folder
+export function matchRedirect(docPath: string, redirects: Array<[string, string]>): { from: string; to: string } | null {
+	const normalized = normalizeDocPath(docPath)
+	const key = toRedirectKey(normalized)
+	const exact = redirects.find(([from]) => toRedirectKey(from) === key)
+	if (exact) {
+		return { from: exact[0], to: exact[1] }
+	}
+
+	const folder = redirects
+		.map(([from, to]) => ({ from, to, prefix: toRedirectKey(from) }))
+		.filter(({ prefix }) => key.startsWith(`${prefix}/`))
+		.sort((a, b) => b.prefix.length - a.prefix.length)[0]
+	if (!folder) {
+		return null
+	}
+	// The key only drops a trailing extension or index page and changes case, so its prefix has the same length in the path
+	const rest = normalized.slice(folder.prefix.length + 1)
+	const targetFolder = normalizeDocPath(folder.to).replace(/(^|\/)index(\.mdx?)?$/i, "")
+	return { from: folder.from, to: targetFolder ? `${targetFolder}/${rest}` : rest }
+}
+
+function toRedirectKey(docPath: string): string {
+	return normalizeDocPath(docPath)
+		.replace(/\.mdx?$/i, "")
+		.replace(/(^|\/)index$/i, "")
+		.toLowerCase()
+}
+
+export async function getMatchingPaths(pathInput: string, queryKeywords: string[] | undefined, roots: SearchRoot[]): Promise<string> {
 	const pathKeywords = extractKeywordsFromPath(pathInput)
 	const allKeywords = normalizeKeywords([...pathKeywords, ...(queryKeywords ?? [])])
 
@@ -175,10 +608,10 @@ export async function getMatchingPaths(pathInput: string, queryKeywords: string[
 	}
 
 	const suggestedPaths = new Set<string>()
-	for (const base of baseDirs) {
-		const result = await searchDocumentContent(allKeywords, base)
+	for (const root of roots) {
+		const result = await searchDocumentContent(allKeywords, root.absolutePath)
 		for (const entry of result) {
-			suggestedPaths.add(entry)
+			suggestedPaths.add(qualifySearchPath(root, entry))
 		}
 	}
 
@@ -187,7 +620,6 @@ export async function getMatchingPaths(pathInput: string, queryKeywords: string[
 	}
 
 	const pathList = Array.from(suggestedPaths)
-		.sort()
 		.map((value) => `- ${value}`)
 		.join("\n")
 
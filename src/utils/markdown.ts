@@ -0,0 +1,438 @@
+import { createProcessor } from "@mdx-js/mdx"
+import { parse, stringify } from "yaml"
+import { z } from "zod"
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/
+const HEADING_PATTERN = /^(#{1,6})[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/
+const FENCE_PATTERN = /^[ \t]{0,3}(`{3,}|~{3,})/
+// Inline links ([text](href "title")) and reference definitions ([id]: href); images are matched so they can be skipped
+const INLINE_LINK_PATTERN = /(!?)(\[[^\]]*\]\([ \t]*<?)([^)\s>]+)/g
+const LINK_DEFINITION_PATTERN = /^([ \t]{0,3}\[[^\]]+\]:[ \t]*<?)([^\s>]+)/
+// Includes must sit on their own line: <!-- include: ../shared/install.md --> or <Include path="../shared/install.md" />
+const INCLUDE_COMMENT_PATTERN = /^[ \t]*<!--[ \t]*include:[ \t]*(\S+?)[ \t]*-->[ \t]*$/
+const INCLUDE_COMPONENT_PATTERN = /^[ \t]*<Include[ \t]+path=(?:"([^"]+)"|'([^']+)'|\{["']([^"']+)["']\})[ \t]*\/>[ \t]*$/
+const MDX_STRIPPED_NODES = new Set(["mdxjsEsm", "mdxFlowExpression", "mdxTextExpression"])
+const MDX_JSX_NODES = new Set(["mdxJsxFlowElement", "mdxJsxTextElement"])
+
+// Invalid values are dropped rather than failing the whole document
+// A YAML list or a comma-separated string
+const StringListSchema = z
+	.union([
+		z.array(z.string()),
+		z.string().transform((value) =>
+			value
+				.split(",")
+				.map((item) => item.trim())
+				.filter(Boolean)
+		)
+	])
+	.optional()
+	.catch(undefined)
+
+const DocFrontmatterSchema = z.object({
+	title: z.string().optional().catch(undefined),
+	description: z.string().optional().catch(undefined),
+	tags: StringListSchema,
+	// Other names for the page; search ranks them like the title
+	aliases: StringListSchema,
+	order: z.number().optional().catch(undefined),
+	// Drafts are never served; hidden pages can be read by path but are left out of listings and search
+	draft: z.boolean().optional().catch(undefined),
+	hidden: z.boolean().optional().catch(undefined),
+	// Paths the page used to live at, relative to its doc root; requests for them are served from the page
+	redirect_from: StringListSchema
+})
+
+export type DocMetadata = z.infer<typeof DocFrontmatterSchema>
+
+export interface MarkdownHeading {
+	level: number
+	text: string
+	// GitHub-compatible anchor slug, unique within the document
+	slug: string
+	// 1-based line number within the content passed to extractHeadings
+	line: number
+}
+
+export interface SplitFrontmatterResult {
+	data: Record<string, unknown>
+	body: string
+	// Number of lines occupied by the frontmatter block (0 when absent)
+	lineOffset: number
+}
+
+export function splitFrontmatter(content: string): SplitFrontmatterResult {
+	const match = FRONTMATTER_PATTERN.exec(content)
+	if (!match) {
+		return { data: {}, body: content, lineOffset: 0 }
+	}
+
+	let data: Record<string, unknown> = {}
+	try {
+		const parsed: unknown = parse(match[1])
+		if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+			data = parsed as Record<string, unknown>
+		}
+	} catch {
+		// Invalid YAML is treated as an empty frontmatter block
+	}
+
+	return {
+		data,
+		body: content.slice(match[0].length),
+		lineOffset: match[0].split("\n").length - 1
+	}
+}
+
+export function parseDocMetadata(data: Record<string, unknown>): DocMetadata {
+	return DocFrontmatterSchema.parse(data)
+}
+
+export interface OutlineEntry extends MarkdownHeading {
+	// Number of lines in the section, counting nested subsections
+	lines: number
+	characters: number
+}
+
+export function extractSection(content: string, anchor: string): { heading: MarkdownHeading; content: string } | null {
+	const headings = extractHeadings(content)
+	const slug = anchor.replace(/^#/, "").toLowerCase()
+	const index = headings.findIndex((heading) => heading.slug === slug)
+	if (index === -1) {
+		return null
+	}
+
+	const lines = content.split("\n")
+	return { heading: headings[index], content: sliceSection(lines, headings, index).join("\n").trimEnd() }
+}
+
+export function extractOutline(content: string): OutlineEntry[] {
+	const headings = extractHeadings(content)
+	const lines = content.split("\n")
+
+	return headings.map((heading, index) => {
+		const section = sliceSection(lines, headings, index).join("\n").trimEnd()
+		return { ...heading, lines: section.split("\n").length, characters: section.length }
+	})
+}
+
+// A section runs until the next heading of the same or a higher level, so nested subsections are included
+function sliceSection(lines: string[], headings: MarkdownHeading[], index: number): string[] {
+	const heading = headings[index]
+	const next = headings.slice(index + 1).find((candidate) => candidate.level <= heading.level)
+	return lines.slice(heading.line - 1, next ? next.line - 1 : lines.length)
+}
+
+// Mirrors github-slugger: strip inline markup, drop punctuation, hyphenate spaces
+export function slugify(text: string): string {
+	return text
+		.replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+		.replace(/<[^>]+>/g, "")
+		.toLowerCase()
+		.replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, "")
+		.replace(/ /g, "-")
+}
+
+export function extractHeadings(content: string): MarkdownHeading[] {
+	const headings: MarkdownHeading[] = []
+	const slugCounts = new Map<string, number>()
+
+	mapProseLines(content, (line, index) => {
+		const headingMatch = HEADING_PATTERN.exec(line)
+		if (headingMatch) {
+			const text = headingMatch[2].trim()
+			const baseSlug = slugify(text)
+			let slug = baseSlug
+			while (slugCounts.has(slug)) {
+				const occurrences = (slugCounts.get(baseSlug) ?? 0) + 1
+				slugCounts.set(baseSlug, occurrences)
+				slug = `${baseSlug}-${occurrences}`
+			}
+			slugCounts.set(slug, 0)
+			headings.push({ level: headingMatch[1].length, text, slug, line: index + 1 })
+		}
+		return line
+	})
+
+	return headings
+}
+
+export interface CodeBlock {
+	// First word of the fence's info string, lowercased
+	language?: string
+	code: string
+	// 1-based line number of the opening fence within the content passed to extractCodeBlocks
+	line: number
+	// Closest heading above the block
+	heading?: MarkdownHeading
+}
+
+// Fenced code blocks in document order; an unclosed fence runs to the end of the content, as in CommonMark
+export function extractCodeBlocks(content: string): CodeBlock[] {
+	const headings = extractHeadings(content)
+	const lines = content.split("\n").map((line) => line.replace(/\r$/, ""))
+	const blocks: CodeBlock[] = []
+	let open: { marker: string; language?: string; line: number; code: string[] } | null = null
+
+	for (const [index, line] of lines.entries()) {
+		const fenceMatch = FENCE_PATTERN.exec(line)
+		if (open === null) {
+			if (fenceMatch) {
+				const language = line.slice(fenceMatch[0].length).trim().split(/\s+/)[0].toLowerCase()
+				open = { marker: fenceMatch[1], language: language || undefined, line: index + 1, code: [] }
+			}
+			continue
+		}
+
+		const closes = fenceMatch && fenceMatch[1][0] === open.marker[0] && fenceMatch[1].length >= open.marker.length
+		if (!closes) {
+			open.code.push(line)
+			continue
+		}
+		blocks.push(toCodeBlock(open, headings))
+		open = null
+	}
+
+	if (open !== null) {
+		blocks.push(toCodeBlock(open, headings))
+	}
+	return blocks
+}
+
+function toCodeBlock(open: { language?: string; line: number; code: string[] }, headings: MarkdownHeading[]): CodeBlock {
+	const heading = headings.filter((candidate) => candidate.line < open.line).at(-1)
+	return { language: open.language, code: open.code.join("\n"), line: open.line, heading }
+}
+
+export interface Definition {
+	term: string
+	definition: string
+	// 1-based line of the term within the content
+	line: number
+}
+
+// Definition list items outside fenced code: a term line, optionally a blank line, then one or more ": definition"
+// lines; indented lines continue a definition, and several definitions of one term are joined by blank lines
+export function extractDefinitions(content: string): Definition[] {
+	const lines = content.split("\n").map((line) => line.replace(/\r$/, ""))
+	const definitions: Definition[] = []
+	let current: { definition: Definition; lastLine: number } | null = null
+	let fence: string | null = null
+
+	for (const [index, line] of lines.entries()) {
+		const fenceMatch = FENCE_PATTERN.exec(line)
+		if (fenceMatch) {
+			if (fence === null) {
+				fence = fenceMatch[1]
+				current = null
+			} else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+				fence = null
+			}
+			continue
+		}
+		if (fence !== null) {
+			continue
+		}
+
+		const item = /^:[ \t]+(.*)$/.exec(line)
+		if (item) {
+			const termIndex = lines[index - 1]?.trim() ? index - 1 : index - 2
+			if (current && current.lastLine >= termIndex) {
+				current.definition.definition += `\n\n${item[1].trim()}`
+				current.lastLine = index
+				continue
+			}
+			const term = (lines[termIndex] ?? "").replace(/[*_`]+/g, "").trim()
+			if (term.length > 0 && !HEADING_PATTERN.test(lines[termIndex])) {
+				current = { definition: { term, definition: item[1].trim(), line: termIndex + 1 }, lastLine: index }
+				definitions.push(current.definition)
+			}
+			continue
+		}
+
+		if (current && /^(?: {2,}|\t)\S/.test(line) && current.lastLine >= index - 2) {
+			current.definition.definition += `${lines[index - 1].trim() ? " " : "\n\n"}${line.trim()}`
+			current.lastLine = index
+		} else if (line.trim()) {
+			current = null
+		}
+	}
+	return definitions
+}
+
+// First sentence of the prose in content, without headings, code blocks, or inline markup
+export function summarizeProse(content: string, maxLength = 160): string | undefined {
+	const prose: string[] = []
+	let fence: string | null = null
+	for (const rawLine of content.split("\n")) {
+		const line = rawLine.replace(/\r$/, "")
+		const fenceMatch = FENCE_PATTERN.exec(line)
+		if (fenceMatch) {
+			if (fence === null) {
+				fence = fenceMatch[1]
+			} else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+				fence = null
+			}
+			continue
+		}
+		if (fence === null && !HEADING_PATTERN.test(line)) {
+			prose.push(line.replace(/^[ \t]*(?:[-*+>]|\d+\.)[ \t]+/, "").trim())
+		}
+	}
+
+	const text = prose
+		.join(" ")
+		.replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+		.replace(/<[^>]+>/g, "")
+		.replace(/[*`|]+/g, "")
+		.replace(/\s+/g, " ")
+		.trim()
+	if (text.length === 0) {
+		return undefined
+	}
+	const sentence = /^.+?[.!?](?=\s|$)/.exec(text)?.[0] ?? text
+	return sentence.length > maxLength ? `${sentence.slice(0, maxLength).replace(/\s\S*$/, "")}…` : sentence
+}
+
+// Replaces link targets outside fenced code; returning undefined from replace keeps the original href
+export function rewriteLinks(content: string, replace: (href: string) => string | undefined): string {
+	return mapProseLines(content, (line) => {
+		const definition = LINK_DEFINITION_PATTERN.exec(line)
+		if (definition) {
+			return definition[1] + (replace(definition[2]) ?? definition[2]) + line.slice(definition[0].length)
+		}
+		return line.replace(INLINE_LINK_PATTERN, (match: string, bang: string, prefix: string, href: string) => (bang ? match : prefix + (replace(href) ?? href)))
+	})
+}
+
+export function extractLinks(content: string): string[] {
+	const links: string[] = []
+	rewriteLinks(content, (href) => {
+		links.push(href)
+		return undefined
+	})
+	return links
+}
+
+// Replaces include directives outside fenced code with the text returned for their target
+export function rewriteIncludes(content: string, replace: (target: string) => string): string {
+	return mapProseLines(content, (line) => {
+		const match = INCLUDE_COMMENT_PATTERN.exec(line) ?? INCLUDE_COMPONENT_PATTERN.exec(line)
+		const target = match?.slice(1).find(Boolean)
+		return target ? replace(target) : line
+	})
+}
+
+export function extractIncludes(content: string): string[] {
+	const targets: string[] = []
+	rewriteIncludes(content, (target) => {
+		targets.push(target)
+		return target
+	})
+	return targets
+}
+
+// Applies a transform to each line that is not part of a fenced code block
+function mapProseLines(content: string, transform: (line: string, index: number) => string): string {
+	let fence: string | null = null
+
+	return content
+		.split("\n")
+		.map((rawLine, index) => {
+			const line = rawLine.replace(/\r$/, "")
+			const fenceMatch = FENCE_PATTERN.exec(line)
+			if (fenceMatch) {
+				const marker = fenceMatch[1]
+				if (fence === null) {
+					fence = marker
+				} else if (marker[0] === fence[0] && marker.length >= fence.length) {
+					fence = null
+				}
+				return rawLine
+			}
+			if (fence !== null) {
+				return rawLine
+			}
+
+			const transformed = transform(line, index)
+			return transformed === line ? rawLine : transformed + rawLine.slice(line.length)
+		})
+		.join("\n")
+}
+
+export function formatFrontmatter(data: Record<string, unknown>): string {
+	// Filter out undefined and null values
+	const cleaned: Record<string, unknown> = {}
+	for (const [key, value] of Object.entries(data)) {
+		if (value !== undefined && value !== null) {
+			cleaned[key] = value
+		}
+	}
+
+	// Use yaml library to stringify
+	const yamlContent = stringify(cleaned, {
+		lineWidth: 0, // Don't wrap lines
+		minContentWidth: 0
+	})
+
+	return `---\n${yamlContent}---`
+}
+
+interface MdxNode {
+	type: string
+	children?: MdxNode[]
+	position?: { start: { offset?: number }; end: { offset?: number } }
+}
+
+function removeCommonIndent(text: string): string {
+	const [first, ...rest] = text.split("\n")
+	const indents = rest.filter((line) => line.trim().length > 0).map((line) => /^[ \t]*/.exec(line)?.[0].length ?? 0)
+	const indent = indents.length > 0 ? Math.min(...indents) : 0
+	return [first, ...rest.map((line) => line.slice(Math.min(indent, line.length - line.trimStart().length)))].join("\n")
+}
+
+function renderMdxNodes(source: string, start: number, end: number, nodes: MdxNode[]): string {
+	let output = ""
+	let cursor = start
+
+	for (const node of nodes) {
+		const nodeStart = node.position?.start.offset
+		const nodeEnd = node.position?.end.offset
+		if (nodeStart === undefined || nodeEnd === undefined) {
+			continue
+		}
+
+		output += source.slice(cursor, nodeStart)
+		cursor = nodeEnd
+
+		if (MDX_STRIPPED_NODES.has(node.type)) {
+			continue
+		}
+
+		const children = node.children ?? []
+		if (MDX_JSX_NODES.has(node.type)) {
+			// Keep what a component wraps, drop the component itself
+			const first = children[0]?.position?.start.offset
+			const last = children[children.length - 1]?.position?.end.offset
+			if (first !== undefined && last !== undefined) {
+				const inner = renderMdxNodes(source, first, last, children)
+				output += node.type === "mdxJsxFlowElement" ? removeCommonIndent(inner) : inner
+			}
+			continue
+		}
+
+		output += children.length > 0 ? renderMdxNodes(source, nodeStart, nodeEnd, children) : source.slice(nodeStart, nodeEnd)
+	}
+
+	return output + source.slice(cursor, end)
+}
+
+// Turns MDX into plain Markdown using the same @mdx-js/mdx parser as prompts: imports, exports and
+// expressions are removed, and JSX components are replaced by the Markdown they wrap
+export function renderMdxToMarkdown(content: string): string {
+	const tree = createProcessor().parse(content) as MdxNode
+	return renderMdxNodes(content, 0, content.length, tree.children ?? [])
+		.replace(/\n{3,}/g, "\n\n")
+		.trim()
+		.concat("\n")
+}
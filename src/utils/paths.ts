@@ -0,0 +1,207 @@
+import fs from "node:fs/promises"
+import path from "node:path"
+import type { DocRoot, DocsServerConfig } from "./config.js"
+import { getLocaleConfig } from "./config.js"
+import { isExcludedEntry, loadRedirects, matchRedirect, normalizeDocPath } from "./index.js"
+
+export interface ResolvedDocPath {
+	absolutePath: string
+	relativePath: string
+}
+
+export async function resolveDocPath(
+	docPath: string,
+	config: DocsServerConfig
+): Promise<{ isSecurityViolation: boolean; resolved: ResolvedDocPath | null; root: DocRoot; rootPrefix: string; isExactMatch: boolean }> {
+	const { roots, path: rootPath } = splitRootName(docPath, config)
+	const normalized = normalizeDocPath(rootPath)
+
+	if (hasTraversal(normalized)) {
+		return { isSecurityViolation: true, resolved: null, root: roots[0], rootPrefix: "", isExactMatch: false }
+	}
+
+	// Exact-case matches in any root win over case-insensitive ones, and earlier roots over later ones
+	for (const caseInsensitive of [false, true]) {
+		for (const root of roots) {
+			const match = await resolveInRoot(normalized, root, caseInsensitive)
+			if (match) {
+				return { isSecurityViolation: false, ...match, root, rootPrefix: getRootPrefix(root) }
+			}
+		}
+	}
+
+	return { isSecurityViolation: false, resolved: null, root: roots[0], rootPrefix: getRootPrefix(roots[0]), isExactMatch: false }
+}
+
+async function resolveInRoot(normalized: string, root: DocRoot, caseInsensitive: boolean): Promise<{ resolved: ResolvedDocPath; isExactMatch: boolean } | null> {
+	const rootPrefix = getRootPrefix(root)
+	const candidates = new Set<string>()
+	candidates.add(normalized)
+
+	if (rootPrefix && normalized.startsWith(`${rootPrefix}/`)) {
+		candidates.add(normalized.slice(rootPrefix.length + 1))
+	}
+	if (rootPrefix && normalized === rootPrefix) {
+		candidates.add(".")
+	}
+	if (normalized.length === 0) {
+		candidates.add(".")
+	}
+
+	if (!caseInsensitive) {
+		// First pass: literal paths and extension/index variants, exactly as cased
+		for (const candidate of candidates) {
+			const relativeCandidate = candidate === "." ? "." : normalizeDocPath(candidate)
+			for (const relativePath of buildPathVariants(relativeCandidate)) {
+				const target = relativePath === "." ? root.absolutePath : path.resolve(root.absolutePath, relativePath)
+
+				if (!target.startsWith(root.absolutePath)) {
+					continue
+				}
+
+				try {
+					const stats = await fs.stat(target)
+					if (await isExcludedEntry(target, stats.isDirectory(), { includeHidden: true })) {
+						continue
+					}
+					return {
+						resolved: {
+							absolutePath: target,
+							relativePath
+						},
+						isExactMatch: relativePath === relativeCandidate
+					}
+				} catch {
+					// continue searching other candidates
+				}
+			}
+		}
+		return null
+	}
+
+	// Second pass: the same variants, matched case-insensitively segment by segment
+	for (const candidate of candidates) {
+		if (candidate === ".") {
+			continue
+		}
+		for (const variant of buildPathVariants(normalizeDocPath(candidate))) {
+			const relativePath = await matchPathCaseInsensitive(root.absolutePath, variant)
+			if (relativePath && !(await isExcludedPath(path.resolve(root.absolutePath, relativePath)))) {
+				return {
+					resolved: {
+						absolutePath: path.resolve(root.absolutePath, relativePath),
+						relativePath
+					},
+					isExactMatch: false
+				}
+			}
+		}
+	}
+
+	return null
+}
+
+// `runbooks:deploy/rollback.md` addresses a single named root; other paths are tried against every root in order
+function splitRootName(docPath: string, config: DocsServerConfig): { roots: DocRoot[]; path: string } {
+	const match = /^([^:/]+):(.*)$/.exec(docPath)
+	const root = match ? config.docRoots.find((candidate) => candidate.name === match[1]) : undefined
+	return root && match ? { roots: [root], path: match[2] } : { roots: config.docRoots, path: docPath }
+}
+
+function getRootPrefix(root: DocRoot): string {
+	return root.relativePath === "." ? "" : root.relativePath
+}
+
+// With more than one root, paths handed back to the agent carry the root name so they resolve unambiguously
+export function qualifyPath(config: DocsServerConfig, root: DocRoot, relativePath: string): string {
+	return config.docRoots.length > 1 ? `${root.name}:${relativePath}` : relativePath
+}
+
+// Extension inference: `guide` -> `guide.md`, `guide.mdx` -> `guide.md`, `commands.md` -> `commands/index.md`
+function buildPathVariants(relativePath: string): string[] {
+	if (relativePath === ".") {
+		return ["."]
+	}
+
+	const extension = /\.mdx?$/i.exec(relativePath)
+	if (!extension) {
+		return [relativePath, `${relativePath}.md`, `${relativePath}.mdx`]
+	}
+
+	const stem = relativePath.slice(0, -extension[0].length)
+	const swapped = extension[0].toLowerCase() === ".md" ? `${stem}.mdx` : `${stem}.md`
+	return [relativePath, swapped, `${stem}/index.md`, `${stem}/index.mdx`]
+}
+
+async function isExcludedPath(absolutePath: string): Promise<boolean> {
+	const stats = await fs.stat(absolutePath)
+	return isExcludedEntry(absolutePath, stats.isDirectory(), { includeHidden: true })
+}
+
+async function matchPathCaseInsensitive(rootPath: string, relativePath: string): Promise<string | null> {
+	const matchedSegments: string[] = []
+	let current = rootPath
+
+	for (const segment of relativePath.split("/")) {
+		let entries: string[]
+		try {
+			entries = await fs.readdir(current)
+		} catch {
+			return null
+		}
+
+		const match = entries.find((entry) => entry.toLowerCase() === segment.toLowerCase())
+		if (!match) {
+			return null
+		}
+		matchedSegments.push(match)
+		current = path.join(current, match)
+	}
+
+	return matchedSegments.join("/")
+}
+
+export function splitAnchor(docPath: string): { filePath: string; anchor?: string } {
+	const hashIndex = docPath.indexOf("#")
+	if (hashIndex === -1) {
+		return { filePath: docPath }
+	}
+
+	const anchor = docPath.slice(hashIndex + 1)
+	return { filePath: docPath.slice(0, hashIndex), anchor: anchor.length > 0 ? anchor : undefined }
+}
+
+export function hasTraversal(input: string): boolean {
+	return input.split("/").some((segment) => segment === "..")
+}
+
+// Config redirects are matched against the path as requested, redirect_from frontmatter within each root in scope
+export async function findRedirect(filePath: string, config: DocsServerConfig): Promise<{ from: string; to: string } | null> {
+	const configured = matchRedirect(filePath, Object.entries(config.redirects ?? {}))
+	if (configured) {
+		return configured
+	}
+
+	const { roots, path: rootPath } = splitRootName(filePath, config)
+	for (const root of roots) {
+		const redirects = await loadRedirects(root.absolutePath)
+		const match = matchRedirect(rootPath, [...redirects].map(([from, to]) => [from, qualifyPath(config, root, to)]))
+		if (match) {
+			return match
+		}
+	}
+	return null
+}
+
+// Configured redirects whose target is neither a page nor a folder in the latest version's default locale
+export async function findBrokenRedirects(config: DocsServerConfig): Promise<Array<{ from: string; to: string }>> {
+	const defaultConfig = getLocaleConfig(config, undefined)
+	const broken: Array<{ from: string; to: string }> = []
+	for (const [from, to] of Object.entries(config.redirects ?? {})) {
+		const { resolved } = await resolveDocPath(splitAnchor(to).filePath, defaultConfig)
+		if (!resolved) {
+			broken.push({ from, to })
+		}
+	}
+	return broken
+}
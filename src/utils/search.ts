@@ -0,0 +1,408 @@
+import { extractHeadings, parseDocMetadata, splitFrontmatter } from "./markdown.js"
+import { stem } from "./stemmer.js"
+import type { SynonymDictionary } from "./synonyms.js"
+
+export type SearchField = "title" | "aliases" | "headings" | "path" | "body"
+
+// Relative importance of a term occurrence in each field (BM25F field weights)
+export const FIELD_WEIGHTS: Record<SearchField, number> = {
+	title: 4,
+	// Frontmatter aliases name the page as well as its title does
+	aliases: 4,
+	headings: 3,
+	path: 2.5,
+	body: 1
+}
+
+const SEARCH_FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[]
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+const SNIPPET_MAX_LENGTH = 240
+
+// Words too common to tell pages apart; dropped from queries unless they are part of a quoted phrase
+export const DEFAULT_STOP_WORDS = [
+	"a",
+	"an",
+	"and",
+	"are",
+	"as",
+	"at",
+	"be",
+	"but",
+	"by",
+	"for",
+	"if",
+	"in",
+	"into",
+	"is",
+	"it",
+	"no",
+	"not",
+	"of",
+	"on",
+	"or",
+	"such",
+	"that",
+	"the",
+	"their",
+	"then",
+	"there",
+	"these",
+	"they",
+	"this",
+	"to",
+	"was",
+	"will",
+	"with"
+]
+const DEFAULT_STOP_WORD_SET: ReadonlySet<string> = new Set(DEFAULT_STOP_WORDS)
+
+export interface SearchDocument {
+	path: string
+	content: string
+}
+
+export interface IndexedDocument {
+	path: string
+	title?: string
+	content: string
+	fieldLengths: Record<SearchField, number>
+	// Each field's terms in order, for checking phrase matches
+	fieldTerms: Record<SearchField, string[]>
+}
+
+export interface SearchIndex {
+	documents: IndexedDocument[]
+	// term -> document id -> term frequency per field
+	postings: Map<string, Map<number, Record<SearchField, number>>>
+	averageFieldLengths: Record<SearchField, number>
+}
+
+// "hybrid" blends keyword scores with the vector similarity from vectors.ts
+export type SearchRanking = "keyword" | "hybrid"
+
+export interface QueryOptions {
+	synonyms?: SynonymDictionary
+	// Replaces DEFAULT_STOP_WORDS; an empty set keeps every word
+	stopWords?: ReadonlySet<string>
+	ranking?: SearchRanking
+}
+
+export interface SearchHit {
+	path: string
+	title?: string
+	score: number
+	// Query words that matched, as written in the query (synonyms included)
+	matchedTerms: string[]
+}
+
+// Chinese, Japanese, and Korean text has no reliable word boundaries, so runs of these scripts are indexed as overlapping bigrams
+const CJK_RUN_PATTERN = /([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\u30fc]+)/u
+
+export function tokenize(text: string): string[] {
+	return text
+		.replace(/([a-z])([A-Z])/g, "$1 $2")
+		.toLowerCase()
+		.split(/[^\p{L}\p{N}]+/u)
+		.flatMap((token) => segmentCjk(token))
+}
+
+// Index terms for text: its tokens, with English words reduced to their stems
+export function analyze(text: string): string[] {
+	return tokenize(text).map((token) => stem(token))
+}
+
+// Splits CJK runs out of a token as bigrams (single characters stay whole) and keeps the other parts as they are
+export function segmentCjk(token: string): string[] {
+	return token.split(CJK_RUN_PATTERN).flatMap((part, index) => {
+		if (index % 2 === 0) {
+			return part.length > 0 ? [part] : []
+		}
+		const characters = Array.from(part)
+		return characters.length === 1 ? characters : characters.slice(1).map((character, position) => `${characters[position]}${character}`)
+	})
+}
+
+function emptyFieldCounts(): Record<SearchField, number> {
+	return { title: 0, aliases: 0, headings: 0, path: 0, body: 0 }
+}
+
+function extractFields(document: SearchDocument): { title?: string; fields: Record<SearchField, string[]> } {
+	const { data, body } = splitFrontmatter(document.content)
+	const title = typeof data.title === "string" ? data.title : undefined
+	const aliases = parseDocMetadata(data).aliases ?? []
+	const headings = extractHeadings(body)
+	const headingLines = new Set(headings.map((heading) => heading.line))
+	// Heading lines are indexed in their own field only, so fields stay disjoint
+	const bodyText = body
+		.split("\n")
+		.filter((_line, index) => !headingLines.has(index + 1))
+		.join("\n")
+
+	return {
+		title,
+		fields: {
+			title: analyze(title ?? ""),
+			aliases: analyze(aliases.join(" ")),
+			headings: analyze(headings.map((heading) => heading.text).join(" ")),
+			path: analyze(document.path.replace(/\.mdx?$/i, "")),
+			body: analyze(bodyText)
+		}
+	}
+}
+
+export function buildSearchIndex(documents: SearchDocument[]): SearchIndex {
+	const indexed: IndexedDocument[] = []
+	const postings = new Map<string, Map<number, Record<SearchField, number>>>()
+	const totalFieldLengths = emptyFieldCounts()
+
+	documents.forEach((document, docId) => {
+		const { title, fields } = extractFields(document)
+		const fieldLengths = emptyFieldCounts()
+
+		for (const field of SEARCH_FIELDS) {
+			const tokens = fields[field]
+			fieldLengths[field] = tokens.length
+			totalFieldLengths[field] += tokens.length
+
+			for (const token of tokens) {
+				let docPostings = postings.get(token)
+				if (!docPostings) {
+					docPostings = new Map()
+					postings.set(token, docPostings)
+				}
+				let counts = docPostings.get(docId)
+				if (!counts) {
+					counts = emptyFieldCounts()
+					docPostings.set(docId, counts)
+				}
+				counts[field] += 1
+			}
+		}
+
+		indexed.push({ path: document.path, title, content: document.content, fieldLengths, fieldTerms: fields })
+	})
+
+	const averageFieldLengths = emptyFieldCounts()
+	for (const field of SEARCH_FIELDS) {
+		averageFieldLengths[field] = indexed.length > 0 ? totalFieldLengths[field] / indexed.length : 0
+	}
+
+	return { documents: indexed, postings, averageFieldLengths }
+}
+
+function weightedTermFrequency(counts: Record<SearchField, number>, document: IndexedDocument, index: SearchIndex): number {
+	let total = 0
+	for (const field of SEARCH_FIELDS) {
+		if (counts[field] === 0) {
+			continue
+		}
+		const average = index.averageFieldLengths[field] || 1
+		const normalization = 1 - BM25_B + BM25_B * (document.fieldLengths[field] / average)
+		total += (FIELD_WEIGHTS[field] * counts[field]) / normalization
+	}
+	return total
+}
+
+interface ParsedQuery {
+	// Index term -> the query word it came from and its weight
+	terms: Map<string, { word: string; weight: number }>
+	phrases: Array<{ terms: string[]; words: string[]; weight: number }>
+}
+
+// Keywords wrapped in double quotes are phrases whose words must be adjacent; other keywords lose their stop words
+function parseQuery(keywords: string[], options: QueryOptions): ParsedQuery {
+	const stopWords = options.stopWords ?? DEFAULT_STOP_WORD_SET
+	const words: string[] = []
+	const phrases: ParsedQuery["phrases"] = []
+	// Every query term in order, stop words included, so multi-word synonyms can be found in the query
+	const sequence: string[] = []
+
+	for (const keyword of keywords) {
+		const quoted = /^"(.*)"$/.exec(keyword.trim())
+		if (!quoted) {
+			const keywordWords = tokenize(keyword)
+			sequence.push(...keywordWords.map((word) => stem(word)))
+			words.push(...keywordWords.filter((word) => !stopWords.has(word)))
+			continue
+		}
+		const phraseWords = tokenize(quoted[1])
+		sequence.push(...phraseWords.map((word) => stem(word)))
+		if (phraseWords.length > 1) {
+			phrases.push({ terms: phraseWords.map((word) => stem(word)), words: phraseWords, weight: 1 })
+		} else {
+			words.push(...phraseWords)
+		}
+	}
+
+	const terms: ParsedQuery["terms"] = new Map()
+	for (const word of words) {
+		const term = stem(word)
+		if (!terms.has(term)) {
+			terms.set(term, { word, weight: 1 })
+		}
+	}
+	if (options.synonyms) {
+		expandSynonyms({ terms, phrases }, sequence, options.synonyms, stopWords)
+	}
+	return { terms, phrases }
+}
+
+// Adds the synonyms of the query with the dictionary's weight: single words as terms, multi-word synonyms as phrases
+// whose words must be adjacent. Stop words never match on their own; exact terms keep a weight of 1
+function expandSynonyms(query: ParsedQuery, sequence: string[], synonyms: SynonymDictionary, stopWords: ReadonlySet<string>): void {
+	for (const group of synonyms.groups) {
+		const synonymWords = group.map((synonym) => tokenize(synonym)).filter((words) => words.some((word) => !stopWords.has(word)))
+		// A synonym is in the query when its terms appear there next to each other
+		if (!synonymWords.some((words) => containsRun(sequence, words.map((word) => stem(word))))) {
+			continue
+		}
+		for (const words of synonymWords) {
+			const synonymTerms = words.map((word) => stem(word))
+			if (words.length === 1) {
+				if (!query.terms.has(synonymTerms[0])) {
+					query.terms.set(synonymTerms[0], { word: words[0], weight: synonyms.weight })
+				}
+			} else if (!containsRun(sequence, synonymTerms)) {
+				query.phrases.push({ terms: synonymTerms, words, weight: synonyms.weight })
+			}
+		}
+	}
+}
+
+function containsRun(sequence: string[], run: string[]): boolean {
+	for (let start = 0; start + run.length <= sequence.length; start += 1) {
+		if (run.every((term, offset) => sequence[start + offset] === term)) {
+			return true
+		}
+	}
+	return false
+}
+
+// Documents containing the phrase's terms next to each other within one field
+function findPhraseMatches(index: SearchIndex, phraseTerms: string[]): number[] {
+	const postings = phraseTerms.map((term) => index.postings.get(term))
+	if (postings.some((docPostings) => !docPostings)) {
+		return []
+	}
+
+	const candidates = Array.from(postings[0]?.keys() ?? []).filter((docId) => postings.every((docPostings) => docPostings?.has(docId)))
+	return candidates.filter((docId) =>
+		SEARCH_FIELDS.some((field) => {
+			const fieldTerms = index.documents[docId].fieldTerms[field]
+			for (let start = 0; start + phraseTerms.length <= fieldTerms.length; start += 1) {
+				if (phraseTerms.every((term, offset) => fieldTerms[start + offset] === term)) {
+					return true
+				}
+			}
+			return false
+		})
+	)
+}
+
+export function querySearchIndex(index: SearchIndex, keywords: string[], limit = 10, options: QueryOptions = {}): SearchHit[] {
+	const { terms, phrases } = parseQuery(keywords, options)
+	const scores = new Map<number, { score: number; matchedTerms: Set<string> }>()
+	const documentCount = index.documents.length
+
+	const addScore = (docId: number, term: string, word: string, weight: number) => {
+		const docPostings = index.postings.get(term)
+		const counts = docPostings?.get(docId)
+		if (!docPostings || !counts) {
+			return
+		}
+		const idf = Math.log(1 + (documentCount - docPostings.size + 0.5) / (docPostings.size + 0.5))
+		const tf = weightedTermFrequency(counts, index.documents[docId], index)
+		const entry = scores.get(docId) ?? { score: 0, matchedTerms: new Set<string>() }
+		entry.score += (weight * idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1)
+		entry.matchedTerms.add(word)
+		scores.set(docId, entry)
+	}
+
+	for (const [term, { word, weight }] of terms) {
+		for (const docId of index.postings.get(term)?.keys() ?? []) {
+			addScore(docId, term, word, weight)
+		}
+	}
+	// Phrase words only count in documents where they appear together
+	for (const phrase of phrases) {
+		for (const docId of findPhraseMatches(index, phrase.terms)) {
+			phrase.terms.forEach((term, position) => addScore(docId, term, phrase.words[position], phrase.weight))
+		}
+	}
+
+	return Array.from(scores.entries())
+		.sort(([aId, a], [bId, b]) => b.score - a.score || index.documents[aId].path.localeCompare(index.documents[bId].path))
+		.slice(0, limit)
+		.map(([docId, entry]) => ({
+			path: index.documents[docId].path,
+			title: index.documents[docId].title,
+			score: entry.score,
+			matchedTerms: Array.from(entry.matchedTerms)
+		}))
+}
+
+function highlightTerms(text: string, terms: Set<string>): string {
+	return text.replace(/[\p{L}\p{N}]+/gu, (word) =>
+		word
+			.split(CJK_RUN_PATTERN)
+			.map((part, index) => (index % 2 === 1 ? highlightCjkRun(part, terms) : terms.has(stem(part.toLowerCase())) ? `**${part}**` : part))
+			.join("")
+	)
+}
+
+// Bolds the stretches of a CJK run covered by matched bigrams
+function highlightCjkRun(run: string, terms: Set<string>): string {
+	const characters = Array.from(run)
+	if (characters.length === 1) {
+		return terms.has(run) ? `**${run}**` : run
+	}
+
+	const covered = characters.map(() => false)
+	for (let index = 0; index + 1 < characters.length; index += 1) {
+		if (terms.has(`${characters[index]}${characters[index + 1]}`)) {
+			covered[index] = true
+			covered[index + 1] = true
+		}
+	}
+	return characters
+		.map((character, index) => `${covered[index] && !covered[index - 1] ? "**" : ""}${character}${covered[index] && !covered[index + 1] ? "**" : ""}`)
+		.join("")
+}
+
+export function createSnippet(content: string, keywords: string[]): string {
+	const terms = new Set(keywords.flatMap((keyword) => analyze(keyword)))
+	const lines = splitFrontmatter(content)
+		.body.split("\n")
+		.map((line) => line.trim())
+
+	let bestIndex = -1
+	let bestMatches = 0
+	lines.forEach((line, index) => {
+		const matches = new Set(analyze(line).filter((term) => terms.has(term))).size
+		if (matches > bestMatches) {
+			bestIndex = index
+			bestMatches = matches
+		}
+	})
+
+	if (bestIndex === -1) {
+		const fallback = lines.filter(Boolean).join(" ")
+		return fallback.length > SNIPPET_MAX_LENGTH ? `${fallback.slice(0, SNIPPET_MAX_LENGTH)}…` : fallback
+	}
+
+	const text = [lines[bestIndex - 1], lines[bestIndex], lines[bestIndex + 1]].filter(Boolean).join(" ")
+	const firstMatch = Array.from(text.matchAll(/[\p{L}\p{N}]+/gu)).find((word) => analyze(word[0]).some((term) => terms.has(term)))?.index ?? 0
+	const start = Math.max(0, Math.min(firstMatch - SNIPPET_MAX_LENGTH / 3, text.length - SNIPPET_MAX_LENGTH))
+	let snippet = text.slice(start, start + SNIPPET_MAX_LENGTH)
+
+	// Avoid cutting words in half at either edge
+	if (start > 0) {
+		snippet = `…${snippet.replace(/^\S*\s/, "")}`
+	}
+	if (start + SNIPPET_MAX_LENGTH < text.length) {
+		snippet = `${snippet.replace(/\s\S*$/, "")}…`
+	}
+
+	return highlightTerms(snippet, terms)
+}
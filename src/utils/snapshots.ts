@@ -0,0 +1,149 @@
+import { execFile } from "node:child_process"
+import fs from "node:fs/promises"
+import path from "node:path"
+import { promisify } from "node:util"
+import type { DocRoot, DocsServerConfig } from "./config.js"
+import { prepareDocRoot } from "./config.js"
+import type { GitSource } from "./history.js"
+import { CHANGELOG_MANIFEST_FILENAME, collectDocHistory, serializeDocHistory } from "./history.js"
+import { buildVectorIndexForDir } from "./index.js"
+import { findBrokenRedirects } from "./paths.js"
+import { serializeVectorIndex, VECTOR_INDEX_FILENAME } from "./vectors.js"
+
+const execFileAsync = promisify(execFile)
+
+// Records which commit a snapshot folder was extracted from, so unchanged tags are not extracted again
+const SNAPSHOT_MARKER = ".snapshot-commit"
+
+// Extracts the doc folders of every tag-based version into its snapshot folder under .build/versions
+export async function materializeVersionSnapshots(config: DocsServerConfig): Promise<void> {
+	for (const version of config.versions ?? []) {
+		if (!version.tag || !version.snapshotDir) {
+			continue
+		}
+
+		const commit = await resolveTagCommit(config.rootDir, version.tag)
+		const markerPath = path.join(version.snapshotDir, SNAPSHOT_MARKER)
+		const existing = await fs.readFile(markerPath, "utf-8").catch(() => "")
+
+		if (existing.trim() !== commit) {
+			await fs.rm(version.snapshotDir, { recursive: true, force: true })
+			await fs.mkdir(version.snapshotDir, { recursive: true })
+
+			const archivePath = path.join(version.snapshotDir, "snapshot.tar")
+			const folders = version.docRoots.map((root) => root.relativePath)
+			// Archive the tree at the config's folder so paths come out relative to it, even inside a larger repository
+			const { stdout } = await execFileAsync("git", ["-C", config.rootDir, "rev-parse", "--show-toplevel", "--show-prefix"])
+			const [topLevel, prefix = ""] = stdout.split("\n").map((line) => line.trim())
+			const tree = prefix ? `${commit}:${prefix.replace(/\/$/, "")}` : commit
+			await execFileAsync("git", ["-C", topLevel, "archive", "--format=tar", `--output=${archivePath}`, tree, "--", ...folders])
+			await execFileAsync("tar", ["-xf", archivePath, "-C", version.snapshotDir])
+			await fs.rm(archivePath)
+			await fs.writeFile(markerPath, `${commit}\n`)
+		}
+
+		for (const root of version.docRoots) {
+			prepareDocRoot(root, config)
+		}
+	}
+}
+
+// Snapshot folders are untracked copies, so their history comes from the tag, at the same place relative to the config
+export function getSnapshotGitSource(config: DocsServerConfig, dir: string): GitSource | undefined {
+	for (const version of config.versions ?? []) {
+		if (!version.tag || !version.snapshotDir) {
+			continue
+		}
+		const relativePath = path.relative(version.snapshotDir, dir)
+		if (!relativePath.startsWith("..") && !path.isAbsolute(relativePath)) {
+			return { cwd: config.rootDir, revision: version.tag, path: relativePath ? relativePath.split(path.sep).join("/") : "." }
+		}
+	}
+	return undefined
+}
+
+async function resolveTagCommit(rootDir: string, tag: string): Promise<string> {
+	try {
+		const { stdout } = await execFileAsync("git", ["-C", rootDir, "rev-parse", "--verify", `${tag}^{commit}`])
+		return stdout.trim()
+	} catch {
+		throw new Error(`Git tag "${tag}" could not be resolved in ${rootDir}.`)
+	}
+}
+
+export interface PublishedDocRoot {
+	root: DocRoot
+	// Folder in the published package or worker bundle, relative to its config file
+	targetPath: string
+}
+
+// Every root of every version, once each; tag snapshots are published under versions/<name>
+export function getPublishedDocRoots(config: DocsServerConfig): PublishedDocRoot[] {
+	const published = new Map<string, PublishedDocRoot>()
+	for (const version of config.versions ?? [{ name: "", docRoots: config.docRoots }]) {
+		for (const root of version.docRoots) {
+			if (!published.has(root.absolutePath)) {
+				published.set(root.absolutePath, { root, targetPath: version.tag ? path.posix.join("versions", version.name, root.relativePath) : root.relativePath })
+			}
+		}
+	}
+	return [...published.values()]
+}
+
+// Published artifacts have no git history, so tag versions are rewritten to read their copied snapshots
+export async function writePublishedConfig(config: DocsServerConfig, targetPath: string): Promise<void> {
+	if (!config.versions?.some((version) => version.tag)) {
+		await fs.copyFile(config.configPath, targetPath)
+		return
+	}
+
+	const versions = config.versions.map((version) =>
+		version.tag
+			? { name: version.name, docs: Object.fromEntries(version.docRoots.map((root) => [root.name, path.posix.join("versions", version.name, root.relativePath)])) }
+			: (config.raw.versions?.find((entry) => entry.name === version.name) ?? { name: version.name })
+	)
+	await fs.writeFile(targetPath, `${JSON.stringify({ ...config.raw, versions }, null, 2)}\n`)
+}
+
+// Redirects to pages that were since moved or deleted would ship as dead ends, so they stop the build
+export async function assertRedirectTargets(config: DocsServerConfig): Promise<void> {
+	const broken = await findBrokenRedirects(config)
+	if (broken.length > 0) {
+		throw new Error(`Redirect targets not found: ${broken.map(({ from, to }) => `"${from}" -> "${to}"`).join(", ")}. Update or remove them in ${path.basename(config.configPath)}.`)
+	}
+}
+
+// Hybrid ranking needs search vectors; published artifacts get them precomputed next to each folder's pages
+export async function writeVectorIndexes(config: DocsServerConfig, destination: string): Promise<void> {
+	if (config.ranking !== "hybrid") {
+		return
+	}
+
+	for (const { sourceDir, targetDir } of getPublishedFolders(config, destination)) {
+		const vectorIndex = await buildVectorIndexForDir(sourceDir)
+		await fs.mkdir(targetDir, { recursive: true })
+		await fs.writeFile(path.join(targetDir, VECTOR_INDEX_FILENAME), serializeVectorIndex(vectorIndex))
+	}
+}
+
+// Captures each folder's change history, which npm tarballs and worker bundles don't keep, into a manifest
+export async function writeChangelogManifests(config: DocsServerConfig, destination: string): Promise<void> {
+	for (const { sourceDir, targetDir } of getPublishedFolders(config, destination)) {
+		const history = await collectDocHistory(sourceDir, getSnapshotGitSource(config, sourceDir))
+		// Published configs drop version tags, so versions keep their starting point under their own name
+		for (const version of config.versions ?? []) {
+			if (version.tag && history.tags[version.tag]) {
+				history.tags[version.name] = history.tags[version.tag]
+			}
+		}
+		await fs.mkdir(targetDir, { recursive: true })
+		await fs.writeFile(path.join(targetDir, CHANGELOG_MANIFEST_FILENAME), serializeDocHistory(history))
+	}
+}
+
+// One folder per published root and locale, with the source folder it is built from
+function getPublishedFolders(config: DocsServerConfig, destination: string): Array<{ sourceDir: string; targetDir: string }> {
+	return getPublishedDocRoots(config).flatMap(({ root, targetPath }) =>
+		(config.locales ?? ["."]).map((folder) => ({ sourceDir: path.join(root.absolutePath, folder), targetDir: path.join(destination, targetPath, folder) }))
+	)
+}
@@ -0,0 +1,120 @@
+// Porter stemmer for English (M.F. Porter, 1980), so "configuring", "configured" and "configuration" share the stem "configur"
+
+const STEP2_SUFFIXES: Record<string, string> = {
+	ational: "ate",
+	tional: "tion",
+	enci: "ence",
+	anci: "ance",
+	izer: "ize",
+	bli: "ble",
+	alli: "al",
+	entli: "ent",
+	eli: "e",
+	ousli: "ous",
+	ization: "ize",
+	ation: "ate",
+	ator: "ate",
+	alism: "al",
+	iveness: "ive",
+	fulness: "ful",
+	ousness: "ous",
+	aliti: "al",
+	iviti: "ive",
+	biliti: "ble",
+	logi: "log"
+}
+
+const STEP3_SUFFIXES: Record<string, string> = {
+	icate: "ic",
+	ative: "",
+	alize: "al",
+	iciti: "ic",
+	ical: "ic",
+	ful: "",
+	ness: ""
+}
+
+const CONSONANT = "[^aeiou]"
+const VOWEL = "[aeiouy]"
+const CONSONANT_SEQUENCE = `${CONSONANT}[^aeiouy]*`
+const VOWEL_SEQUENCE = `${VOWEL}[aeiou]*`
+
+// Porter's measure m: the number of vowel-consonant sequences in a stem
+const MEASURE_ABOVE_0 = new RegExp(`^(${CONSONANT_SEQUENCE})?${VOWEL_SEQUENCE}${CONSONANT_SEQUENCE}`)
+const MEASURE_EQUALS_1 = new RegExp(`^(${CONSONANT_SEQUENCE})?${VOWEL_SEQUENCE}${CONSONANT_SEQUENCE}(${VOWEL_SEQUENCE})?$`)
+const MEASURE_ABOVE_1 = new RegExp(`^(${CONSONANT_SEQUENCE})?${VOWEL_SEQUENCE}${CONSONANT_SEQUENCE}${VOWEL_SEQUENCE}${CONSONANT_SEQUENCE}`)
+const HAS_VOWEL = new RegExp(`^(${CONSONANT_SEQUENCE})?${VOWEL}`)
+const ENDS_CVC = new RegExp(`^${CONSONANT_SEQUENCE}${VOWEL}[^aeiouwxy]$`)
+
+export function stem(word: string): string {
+	// Short words and anything that isn't plain English letters are left alone
+	if (word.length < 3 || !/^[a-z]+$/.test(word)) {
+		return word
+	}
+
+	// A leading y is a consonant; upper-casing it keeps the vowel patterns from treating it as one
+	const startsWithY = word.startsWith("y")
+	let result = startsWithY ? `Y${word.slice(1)}` : word
+
+	// Step 1a: plurals
+	const plural = /^(.+?)(ss|i)es$/.exec(result) ?? /^(.+?)([^s])s$/.exec(result)
+	if (plural) {
+		result = `${plural[1]}${plural[2]}`
+	}
+
+	// Step 1b: past tense and gerunds
+	const eed = /^(.+?)eed$/.exec(result)
+	const edOrIng = eed ? null : /^(.+?)(ed|ing)$/.exec(result)
+	if (eed) {
+		if (MEASURE_ABOVE_0.test(eed[1])) {
+			result = result.slice(0, -1)
+		}
+	} else if (edOrIng && HAS_VOWEL.test(edOrIng[1])) {
+		result = edOrIng[1]
+		if (/(at|bl|iz)$/.test(result)) {
+			result = `${result}e`
+		} else if (/([^aeiouylsz])\1$/.test(result)) {
+			result = result.slice(0, -1)
+		} else if (ENDS_CVC.test(result)) {
+			result = `${result}e`
+		}
+	}
+
+	// Step 1c: terminal y
+	const terminalY = /^(.+?)y$/.exec(result)
+	if (terminalY && HAS_VOWEL.test(terminalY[1])) {
+		result = `${terminalY[1]}i`
+	}
+
+	// Steps 2 and 3: double and single suffixes
+	const step2 = /^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/.exec(result)
+	if (step2 && MEASURE_ABOVE_0.test(step2[1])) {
+		result = `${step2[1]}${STEP2_SUFFIXES[step2[2]]}`
+	}
+	const step3 = /^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/.exec(result)
+	if (step3 && MEASURE_ABOVE_0.test(step3[1])) {
+		result = `${step3[1]}${STEP3_SUFFIXES[step3[2]]}`
+	}
+
+	// Step 4: remaining suffixes on longer stems
+	const step4 = /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/.exec(result)
+	const ion = step4 ? null : /^(.+?[st])ion$/.exec(result)
+	if (step4) {
+		if (MEASURE_ABOVE_1.test(step4[1])) {
+			result = step4[1]
+		}
+	} else if (ion && MEASURE_ABOVE_1.test(ion[1])) {
+		result = ion[1]
+	}
+
+	// Step 5: final e and double l
+	const finalE = /^(.+?)e$/.exec(result)
+	if (finalE && (MEASURE_ABOVE_1.test(finalE[1]) || (MEASURE_EQUALS_1.test(finalE[1]) && !ENDS_CVC.test(finalE[1])))) {
+		result = finalE[1]
+	}
+	if (/ll$/.test(result) && MEASURE_ABOVE_1.test(result)) {
+		result = result.slice(0, -1)
+	}
+
+	return startsWithY ? `y${result.slice(1)}` : result
+}
@@ -0,0 +1,30 @@
+import { parse } from "yaml"
+import { z } from "zod"
+
+// Looked up next to mcp-docs-server.json, in this order
+export const SYNONYMS_FILENAMES = ["synonyms.json", "synonyms.yaml", "synonyms.yml"]
+export const DEFAULT_SYNONYM_WEIGHT = 0.5
+
+const synonymsFileSchema = z.object({
+	// Share of an exact match's score that a synonym match earns
+	weight: z.number().min(0).max(1).optional(),
+	synonyms: z.record(z.union([z.string(), z.array(z.string())]))
+})
+
+export interface SynonymDictionary {
+	weight: number
+	// Each group lists terms that mean the same thing
+	groups: string[][]
+}
+
+// Parses a synonyms file; each entry maps a term to one or more terms it is interchangeable with
+export function parseSynonyms(contents: string, fileName: string): SynonymDictionary {
+	const data: unknown = fileName.endsWith(".json") ? JSON.parse(contents) : parse(contents)
+	const file = synonymsFileSchema.parse(data)
+
+	const groups = Object.entries(file.synonyms)
+		.map(([term, synonyms]) => [term, ...(Array.isArray(synonyms) ? synonyms : [synonyms])].map((phrase) => phrase.trim()).filter(Boolean))
+		.filter((group) => group.length > 1)
+
+	return { weight: file.weight ?? DEFAULT_SYNONYM_WEIGHT, groups }
+}
@@ -0,0 +1,320 @@
+import { extractHeadings, splitFrontmatter } from "./markdown.js"
+import type { SearchIndex } from "./search.js"
+import { DEFAULT_STOP_WORDS, tokenize } from "./search.js"
+import { stem } from "./stemmer.js"
+
+// Latent semantic analysis: TF-IDF vectors of document chunks reduced with a truncated SVD, so pages that share
+// context with the query's words rank even when they use different ones. Everything is computed locally
+
+// Written next to the pages of every published doc root and loaded instead of recomputing the vectors
+export const VECTOR_INDEX_FILENAME = "search-vectors.json"
+const VECTOR_INDEX_FORMAT = 1
+
+const MAX_DIMENSIONS = 64
+const OVERSAMPLING = 10
+const POWER_ITERATIONS = 3
+const MAX_CHUNK_TERMS = 200
+// Terms found in a single chunk say nothing about which words appear together
+const MIN_CHUNK_FREQUENCY = 2
+const JACOBI_MAX_SWEEPS = 50
+// Smaller similarities are rounding noise between unrelated chunks
+const SIMILARITY_EPSILON = 1e-6
+
+export interface VectorChunk {
+	path: string
+	// 1-based line in the document where the chunk starts
+	line: number
+	// Unit-length vector in the reduced space
+	vector: number[]
+}
+
+export interface VectorIndex {
+	// Term -> its idf-weighted coordinates in the reduced space
+	terms: Map<string, number[]>
+	chunks: VectorChunk[]
+}
+
+export interface SimilarDocument {
+	path: string
+	similarity: number
+	// Start line of the most similar chunk
+	line: number
+}
+
+interface Chunk {
+	path: string
+	line: number
+	terms: string[]
+}
+
+type SparseRow = Array<[termId: number, weight: number]>
+
+// Index terms for vectors: like the keyword index's, minus stop words, which only add noise here
+function vectorTerms(text: string, stopWords: ReadonlySet<string>): string[] {
+	return tokenize(text)
+		.filter((word) => word.length > 1 && !stopWords.has(word))
+		.map((word) => stem(word))
+}
+
+// Sections split at headings, and long sections again every MAX_CHUNK_TERMS terms; every chunk also carries the title and its heading
+function chunkDocuments(index: SearchIndex, stopWords: ReadonlySet<string>): Chunk[] {
+	const chunks: Chunk[] = []
+	for (const document of index.documents) {
+		const { body, lineOffset } = splitFrontmatter(document.content)
+		const headingsByLine = new Map(extractHeadings(body).map((heading) => [heading.line, heading.text]))
+		const titleTerms = vectorTerms(document.title ?? "", stopWords)
+		let current: Chunk | null = null
+		let contextTerms = titleTerms
+
+		body.split("\n").forEach((text, index) => {
+			const heading = headingsByLine.get(index + 1)
+			if (heading !== undefined) {
+				contextTerms = [...titleTerms, ...vectorTerms(heading, stopWords)]
+			}
+			if (!current || heading !== undefined || current.terms.length >= MAX_CHUNK_TERMS + contextTerms.length) {
+				current = { path: document.path, line: lineOffset + index + 1, terms: [...contextTerms] }
+				chunks.push(current)
+			}
+			if (heading === undefined) {
+				current.terms.push(...vectorTerms(text, stopWords))
+			}
+		})
+	}
+	return chunks.filter((chunk) => chunk.terms.length > 0)
+}
+
+export function buildVectorIndex(index: SearchIndex, stopWords: ReadonlySet<string> = new Set(DEFAULT_STOP_WORDS)): VectorIndex {
+	const chunks = chunkDocuments(index, stopWords)
+
+	const chunkFrequency = new Map<string, number>()
+	for (const chunk of chunks) {
+		for (const term of new Set(chunk.terms)) {
+			chunkFrequency.set(term, (chunkFrequency.get(term) ?? 0) + 1)
+		}
+	}
+	const vocabulary = Array.from(chunkFrequency.entries())
+		.filter(([, frequency]) => frequency >= MIN_CHUNK_FREQUENCY)
+		.map(([term]) => term)
+		.sort()
+	const termIds = new Map(vocabulary.map((term, termId) => [term, termId]))
+	const idf = vocabulary.map((term) => Math.log(1 + chunks.length / (chunkFrequency.get(term) ?? 1)))
+
+	// Sublinear TF-IDF rows, normalized so long chunks don't dominate the decomposition
+	const rows: SparseRow[] = chunks.map((chunk) => {
+		const counts = new Map<number, number>()
+		for (const term of chunk.terms) {
+			const termId = termIds.get(term)
+			if (termId !== undefined) {
+				counts.set(termId, (counts.get(termId) ?? 0) + 1)
+			}
+		}
+		const row: SparseRow = Array.from(counts.entries()).map(([termId, count]) => [termId, (1 + Math.log(count)) * idf[termId]])
+		const norm = Math.hypot(...row.map(([, weight]) => weight))
+		return norm > 0 ? row.map(([termId, weight]) => [termId, weight / norm]) : []
+	})
+
+	const dimensions = Math.min(MAX_DIMENSIONS, Math.floor(chunks.length / 2), vocabulary.length)
+	const termVectors = dimensions > 0 ? truncatedSvd(rows, vocabulary.length, dimensions) : []
+
+	const terms = new Map(vocabulary.map((term, termId) => [term, termVectors.map((column) => column[termId] * idf[termId])]))
+	const vectorChunks = chunks.map((chunk, chunkId) => {
+		const vector = termVectors.map((column) => rows[chunkId].reduce((sum, [termId, weight]) => sum + weight * column[termId], 0))
+		return { path: chunk.path, line: chunk.line, vector: normalize(vector) }
+	})
+
+	return { terms, chunks: vectorChunks.filter((chunk) => chunk.vector.some((value) => value !== 0)) }
+}
+
+// Best chunk similarity per document, for documents with a positive similarity to the query
+export function findSimilarDocuments(vectorIndex: VectorIndex, query: string, stopWords: ReadonlySet<string> = new Set(DEFAULT_STOP_WORDS)): SimilarDocument[] {
+	const counts = new Map<string, number>()
+	for (const term of vectorTerms(query, stopWords)) {
+		counts.set(term, (counts.get(term) ?? 0) + 1)
+	}
+
+	let queryVector: number[] = []
+	for (const [term, count] of counts) {
+		const termVector = vectorIndex.terms.get(term)
+		if (termVector) {
+			queryVector = termVector.map((value, dimension) => (queryVector[dimension] ?? 0) + (1 + Math.log(count)) * value)
+		}
+	}
+	queryVector = normalize(queryVector)
+	if (!queryVector.some((value) => value !== 0)) {
+		return []
+	}
+
+	const best = new Map<string, SimilarDocument>()
+	for (const chunk of vectorIndex.chunks) {
+		const similarity = chunk.vector.reduce((sum, value, dimension) => sum + value * (queryVector[dimension] ?? 0), 0)
+		if (similarity > (best.get(chunk.path)?.similarity ?? SIMILARITY_EPSILON)) {
+			best.set(chunk.path, { path: chunk.path, similarity, line: chunk.line })
+		}
+	}
+	return Array.from(best.values())
+}
+
+export function serializeVectorIndex(vectorIndex: VectorIndex): string {
+	const round = (vector: number[]) => vector.map((value) => Math.round(value * 10000) / 10000)
+	return JSON.stringify({
+		format: VECTOR_INDEX_FORMAT,
+		terms: Object.fromEntries(Array.from(vectorIndex.terms, ([term, vector]) => [term, round(vector)])),
+		chunks: vectorIndex.chunks.map((chunk) => ({ ...chunk, vector: round(chunk.vector) }))
+	})
+}
+
+// Returns null for files written by an incompatible version, so the caller can rebuild the vectors instead
+export function parseVectorIndex(contents: string): VectorIndex | null {
+	const data = JSON.parse(contents) as { format?: number; terms: Record<string, number[]>; chunks: VectorChunk[] }
+	if (data.format !== VECTOR_INDEX_FORMAT) {
+		return null
+	}
+	return { terms: new Map(Object.entries(data.terms)), chunks: data.chunks }
+}
+
+function normalize(vector: number[]): number[] {
+	const norm = Math.hypot(...vector)
+	return norm > 0 ? vector.map((value) => value / norm) : vector
+}
+
+// Top right singular vectors of the chunk-term matrix, one column per dimension, by randomized subspace iteration
+// (Halko, Martinsson & Tropp, 2011). The seed is fixed so the same docs always produce the same vectors
+function truncatedSvd(rows: SparseRow[], termCount: number, dimensions: number): Float64Array[] {
+	const width = Math.min(dimensions + OVERSAMPLING, rows.length, termCount)
+	const random = createRandom(0x5eed)
+	let termBasis: Float64Array[] = Array.from({ length: width }, () => Float64Array.from({ length: termCount }, () => random() * 2 - 1))
+
+	let chunkBasis = orthonormalize(multiplyRows(rows, termBasis))
+	for (let iteration = 0; iteration < POWER_ITERATIONS; iteration += 1) {
+		termBasis = orthonormalize(multiplyTransposed(rows, chunkBasis, termCount))
+		chunkBasis = orthonormalize(multiplyRows(rows, termBasis))
+	}
+
+	// B = Qᵀ A is small in one direction, so its singular vectors come from the eigenvectors of B Bᵀ
+	const projected = multiplyTransposed(rows, chunkBasis, termCount)
+	const gram = projected.map((a) => projected.map((b) => dot(a, b)))
+	const { values, vectors } = symmetricEigen(gram)
+
+	const order = values.map((value, position) => ({ value, position })).sort((a, b) => b.value - a.value)
+	return order
+		.filter(({ value }) => value > 1e-10)
+		.slice(0, dimensions)
+		.map(({ value, position }) => {
+			const column = new Float64Array(termCount)
+			projected.forEach((row, index) => {
+				const coefficient = vectors[index][position] / Math.sqrt(value)
+				for (let termId = 0; termId < termCount; termId += 1) {
+					column[termId] += coefficient * row[termId]
+				}
+			})
+			return column
+		})
+}
+
+// A × basis, with the basis given as columns over terms; returns columns over chunks
+function multiplyRows(rows: SparseRow[], basis: Float64Array[]): Float64Array[] {
+	return basis.map((column) => Float64Array.from(rows, (row) => row.reduce((sum, [termId, weight]) => sum + weight * column[termId], 0)))
+}
+
+// Aᵀ × basis, with the basis given as columns over chunks; returns columns over terms
+function multiplyTransposed(rows: SparseRow[], basis: Float64Array[], termCount: number): Float64Array[] {
+	return basis.map((column) => {
+		const result = new Float64Array(termCount)
+		rows.forEach((row, chunkId) => {
+			for (const [termId, weight] of row) {
+				result[termId] += weight * column[chunkId]
+			}
+		})
+		return result
+	})
+}
+
+// Modified Gram-Schmidt; columns that vanish are dropped
+function orthonormalize(columns: Float64Array[]): Float64Array[] {
+	const basis: Float64Array[] = []
+	for (const column of columns) {
+		const vector = Float64Array.from(column)
+		for (const previous of basis) {
+			const projection = dot(vector, previous)
+			for (let index = 0; index < vector.length; index += 1) {
+				vector[index] -= projection * previous[index]
+			}
+		}
+		const norm = Math.sqrt(dot(vector, vector))
+		if (norm > 1e-10) {
+			basis.push(vector.map((value) => value / norm))
+		}
+	}
+	return basis
+}
+
+function dot(a: ArrayLike<number>, b: ArrayLike<number>): number {
+	let sum = 0
+	for (let index = 0; index < a.length; index += 1) {
+		sum += a[index] * b[index]
+	}
+	return sum
+}
+
+// Cyclic Jacobi rotations; vectors[i][j] is component i of eigenvector j
+function symmetricEigen(input: number[][]): { values: number[]; vectors: number[][] } {
+	const size = input.length
+	const matrix = input.map((row) => [...row])
+	const vectors: number[][] = Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => (i === j ? 1 : 0)))
+
+	for (let sweep = 0; sweep < JACOBI_MAX_SWEEPS; sweep += 1) {
+		let offDiagonal = 0
+		for (let p = 0; p < size; p += 1) {
+			for (let q = p + 1; q < size; q += 1) {
+				offDiagonal += matrix[p][q] ** 2
+			}
+		}
+		if (offDiagonal < 1e-20) {
+			break
+		}
+
+		for (let p = 0; p < size; p += 1) {
+			for (let q = p + 1; q < size; q += 1) {
+				if (Math.abs(matrix[p][q]) < 1e-15) {
+					continue
+				}
+				const theta = (matrix[q][q] - matrix[p][p]) / (2 * matrix[p][q])
+				const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1))
+				const cos = 1 / Math.sqrt(t * t + 1)
+				const sin = t * cos
+
+				for (let k = 0; k < size; k += 1) {
+					const kp = matrix[k][p]
+					const kq = matrix[k][q]
+					matrix[k][p] = cos * kp - sin * kq
+					matrix[k][q] = sin * kp + cos * kq
+				}
+				for (let k = 0; k < size; k += 1) {
+					const pk = matrix[p][k]
+					const qk = matrix[q][k]
+					matrix[p][k] = cos * pk - sin * qk
+					matrix[q][k] = sin * pk + cos * qk
+				}
+				for (let k = 0; k < size; k += 1) {
+					const kp = vectors[k][p]
+					const kq = vectors[k][q]
+					vectors[k][p] = cos * kp - sin * kq
+					vectors[k][q] = sin * kp + cos * kq
+				}
+			}
+		}
+	}
+
+	return { values: matrix.map((row, index) => row[index]), vectors }
+}
+
+// mulberry32
+function createRandom(seed: number): () => number {
+	let state = seed
+	return () => {
+		state = (state + 0x6d2b79f5) | 0
+		let value = Math.imul(state ^ (state >>> 15), 1 | state)
+		value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value
+		return ((value ^ (value >>> 14)) >>> 0) / 4294967296
+	}
+}
@@ -131,7 +131,9 @@ describe("publishDocs with in-memory filesystem", () => {
 			readPackageUp: async () => ({ path: "/package.json", packageJson: JSON.parse(packageJsonContent) }),
 			readPackageUpSync: () => ({ path: "/package.json" })
 		}))
-		vi.doMock("node:child_process", () => ({ spawn: spawnMock }))
+		// The in-memory docs are not a git checkout, so change history falls back to file times
+		const execFileMock = vi.fn((...args: unknown[]) => (args.at(-1) as (error: Error) => void)(new Error("not a git repository")))
+		vi.doMock("node:child_process", () => ({ spawn: spawnMock, execFile: execFileMock }))
 
 		const { publishDocs } = await import("../../src/commands/publish.js")
 
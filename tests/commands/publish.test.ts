@@ -1,9 +1,11 @@
 import type { ChildProcess } from "node:child_process"
+import { execFileSync } from "node:child_process"
 import fs from "node:fs/promises"
 import path from "node:path"
 import { fileURLToPath } from "node:url"
 import { afterEach, beforeEach, describe, expect, it, type MockInstance, vi } from "vitest"
 import { publishDocs } from "../../src/commands/publish.js"
+import { createDocsProject } from "../utils/fixtures.js"
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 const repoRoot = path.resolve(__dirname, "..", "..")
@@ -25,7 +27,9 @@ const { spawnMock } = vi.hoisted(() => {
 	}
 })
 
-vi.mock("node:child_process", () => ({
+// Only npm publish is stubbed; git still runs for tag snapshots
+vi.mock("node:child_process", async (importOriginal) => ({
+	...(await importOriginal<typeof import("node:child_process")>()),
 	spawn: (...args: Parameters<typeof spawnMock>) => spawnMock(...args)
 }))
 
@@ -98,4 +102,100 @@ describe("publishDocs", () => {
 			await fs.rm(outputDir, { recursive: true, force: true })
 		}
 	})
+
+	it("leaves ignored files and drafts out of the package", async () => {
+		const project = await createDocsProject(
+			{
+				"docs/index.md": "# Home\n",
+				"docs/_drafts/next.md": "# Next\n",
+				"docs/guides/wip.md": "---\ndraft: true\n---\n# WIP\n",
+				"docs/guides/internal.md": "---\nhidden: true\n---\n# Internal\n"
+			},
+			{ ignore: ["_drafts/"] }
+		)
+		const outputDir = path.join(project.rootDir, "staged-package")
+
+		try {
+			await publishDocs({ configPath: project.configPath, outputDir })
+
+			const exists = (relativePath: string) =>
+				fs.access(path.join(outputDir, "docs", relativePath)).then(
+					() => true,
+					() => false
+				)
+			expect(await exists("index.md")).toBe(true)
+			expect(await exists("guides/internal.md")).toBe(true)
+			expect(await exists("_drafts")).toBe(false)
+			expect(await exists("guides/wip.md")).toBe(false)
+		} finally {
+			await project.cleanup()
+		}
+	})
+
+	it("ships precomputed search vectors for hybrid ranking", async () => {
+		const project = await createDocsProject({ "docs/index.md": "# Home\n\nDeploy a release.\n", "docs/rollback.md": "# Rollback\n\nRevert a release.\n" }, { ranking: "hybrid" })
+		const outputDir = path.join(project.rootDir, "staged-package")
+
+		try {
+			await publishDocs({ configPath: project.configPath, outputDir })
+
+			const vectors = JSON.parse(await fs.readFile(path.join(outputDir, "docs", "search-vectors.json"), "utf-8")) as { chunks: Array<{ path: string }> }
+			expect(vectors.chunks.map((chunk) => chunk.path).sort()).toEqual(["index.md", "rollback.md"])
+		} finally {
+			await project.cleanup()
+		}
+	})
+
+	it("packages git tag versions as snapshots and points the config at them", async () => {
+		const project = await createDocsProject({ "docs/index.md": "# Home v1\n" }, { versions: [{ name: "v2" }, { name: "v1", tag: "v1.0.0" }] })
+		const git = (...args: string[]) => execFileSync("git", ["-c", "user.name=Docs", "-c", "user.email=docs@example.com", ...args], { cwd: project.rootDir })
+		git("init", "-q")
+		git("add", "-A")
+		git("commit", "-qm", "First release")
+		git("tag", "v1.0.0")
+		await fs.writeFile(path.join(project.rootDir, "docs", "index.md"), "# Home v2\n")
+		const outputDir = path.join(project.rootDir, "staged-package")
+
+		try {
+			await publishDocs({ configPath: project.configPath, outputDir })
+
+			expect(await fs.readFile(path.join(outputDir, "docs", "index.md"), "utf-8")).toBe("# Home v2\n")
+			expect(await fs.readFile(path.join(outputDir, "versions", "v1", "docs", "index.md"), "utf-8")).toBe("# Home v1\n")
+			const stagedConfig = JSON.parse(await fs.readFile(path.join(outputDir, "mcp-docs-server.json"), "utf-8")) as { versions: unknown[] }
+			expect(stagedConfig.versions).toEqual([{ name: "v2" }, { name: "v1", docs: { docs: "versions/v1/docs" } }])
+			const stagedPackageJson = JSON.parse(await fs.readFile(path.join(outputDir, "package.json"), "utf-8")) as { files: string[] }
+			expect(stagedPackageJson.files).toContain("versions/v1/docs")
+			const manifest = JSON.parse(await fs.readFile(path.join(outputDir, "docs", "changelog-manifest.json"), "utf-8")) as { tags: Record<string, string>; documents: Array<{ path: string; changes: unknown[] }> }
+			expect(manifest.tags.v1).toBe(manifest.tags["v1.0.0"])
+			expect(manifest.documents.map((document) => [document.path, document.changes.length])).toEqual([["index.md", 2]])
+		} finally {
+			await project.cleanup()
+		}
+	})
+
+	it("ships the glossary next to the config", async () => {
+		const project = await createDocsProject({ "docs/index.md": "# Home\n", "glossary.yml": "terms:\n  Shard: A partition.\n" })
+		const outputDir = path.join(project.rootDir, "staged-package")
+
+		try {
+			await publishDocs({ configPath: project.configPath, outputDir })
+
+			expect(await fs.readFile(path.join(outputDir, "glossary.yml"), "utf-8")).toBe("terms:\n  Shard: A partition.\n")
+			const stagedPackageJson = JSON.parse(await fs.readFile(path.join(outputDir, "package.json"), "utf-8")) as { files: string[] }
+			expect(stagedPackageJson.files).toContain("glossary.yml")
+		} finally {
+			await project.cleanup()
+		}
+	})
+
+	it("refuses to publish redirects to missing pages", async () => {
+		const project = await createDocsProject({ "docs/index.md": "# Home\n" }, { redirects: { "start.md": "index.md", "setup.md": "install.md" } })
+		const outputDir = path.join(project.rootDir, "staged-package")
+
+		try {
+			await expect(publishDocs({ configPath: project.configPath, outputDir })).rejects.toThrow('Redirect targets not found: "setup.md" -> "install.md"')
+		} finally {
+			await project.cleanup()
+		}
+	})
 })
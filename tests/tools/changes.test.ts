@@ -0,0 +1,199 @@
+import { execFileSync } from "node:child_process"
+import fs from "node:fs/promises"
+import path from "node:path"
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js"
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import { createChangesTool } from "../../src/tools/changes.js"
+import type { DocsServerConfig } from "../../src/utils/config.js"
+import { loadConfig } from "../../src/utils/config.js"
+import { materializeVersionSnapshots } from "../../src/utils/snapshots.js"
+import { createDocsProject, type DocsProject, parseFrontmatter, templatePath } from "../utils/fixtures.js"
+
+const emptyExtra = {
+	signal: new AbortController().signal
+} as RequestHandlerExtra<ServerRequest, ServerNotification>
+
+type ChangesTool = Awaited<ReturnType<typeof createChangesTool>>
+
+async function changes(tool: ChangesTool, args: Parameters<ChangesTool["cb"]>[0]) {
+	const result = await tool.cb(args, emptyExtra)
+	return result.content.map((item) => parseFrontmatter(item.type === "text" ? item.text : ""))
+}
+
+describe("changes tool with git history", () => {
+	let project: DocsProject
+	let config: DocsServerConfig
+	let changesTool: ChangesTool
+
+	beforeAll(async () => {
+		project = await createDocsProject(
+			{
+				"docs/guide.md": "---\ntitle: Guide\n---\n# Guide\n\nStart here.\n\n## Install\n\nRun the installer.\n\n## Legacy\n\nThe old way.\n",
+				"docs/api.md": "# API\n\nThe ibis API.\n"
+			},
+			{ versions: [{ name: "v2" }, { name: "v1", tag: "v1.0.0" }] }
+		)
+
+		// Commit dates are pinned so "since" can fall between the two commits
+		const git = (date: string, ...args: string[]) =>
+			execFileSync("git", ["-c", "user.name=Docs", "-c", "user.email=docs@example.com", ...args], {
+				cwd: project.rootDir,
+				env: { ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date }
+			})
+		git("2024-01-10T12:00:00Z", "init", "-q")
+		git("2024-01-10T12:00:00Z", "add", "-A")
+		git("2024-01-10T12:00:00Z", "commit", "-qm", "First release")
+		git("2024-01-10T12:00:00Z", "tag", "v1.0.0")
+		await fs.writeFile(
+			path.join(project.rootDir, "docs", "guide.md"),
+			"---\ntitle: Guide\n---\n# Guide\n\nStart here.\n\n## Install\n\nRun the new installer. It is faster.\n\n## Upgrade\n\n- Upgrade with `npm update`.\n"
+		)
+		git("2024-03-01T12:00:00Z", "commit", "-qam", "Second release")
+
+		config = loadConfig({ configPath: project.configPath, templatePath })
+		changesTool = await createChangesTool(config)
+	})
+
+	afterAll(async () => {
+		await project.cleanup()
+	})
+
+	it("exposes a generated tool name", () => {
+		expect(changesTool.name).toMatch(/^search.+Changes$/)
+	})
+
+	it("summarizes the sections changed since a date", async () => {
+		const [guide, ...rest] = await changes(changesTool, { since: "2024-02-01" })
+		expect(rest).toHaveLength(0)
+		expect(guide.frontmatter).toMatchObject({ path: "guide.md", title: "Guide", commits: 1 })
+		expect(String(guide.frontmatter.changed)).toMatch(/^2024-03-01/)
+		expect(guide.body).toContain("- **Install** (changed, `guide.md#install`): Run the new installer.")
+		expect(guide.body).toContain("- **Upgrade** (added, `guide.md#upgrade`): Upgrade with npm update.")
+		expect(guide.body).toContain("- **Legacy** (removed)")
+		expect(guide.body).not.toContain("Guide**")
+	})
+
+	it("starts from a git tag or a version read from one", async () => {
+		for (const since of ["v1.0.0", "v1"]) {
+			const results = await changes(changesTool, { since })
+			expect(results.map((result) => result.frontmatter.path)).toEqual(["guide.md"])
+		}
+	})
+
+	it("lists new pages with their sections as added, most recent first", async () => {
+		const results = await changes(changesTool, { since: "2023-12-01" })
+		expect(results.map((result) => result.frontmatter.path)).toEqual(["guide.md", "api.md"])
+		expect(results[1].body).toBe("- **API** (added, `api.md#api`): The ibis API.")
+		expect(results[0].frontmatter.commits).toBe(2)
+	})
+
+	it("reads tag versions from the tag, not from their extracted snapshot", async () => {
+		await materializeVersionSnapshots(config)
+		const results = await changes(changesTool, { since: "2023-12-01", version: "v1" })
+		expect(results.map((result) => result.frontmatter.path)).toEqual(["api.md", "guide.md"])
+		for (const result of results) {
+			expect(String(result.frontmatter.changed)).toMatch(/^2024-01-10/)
+			expect(result.frontmatter.commits).toBe(1)
+		}
+		expect(results[1].body).toContain("- **Legacy** (added, `guide.md#legacy`): The old way.")
+	})
+
+	it("reports starting points it cannot read", async () => {
+		const [result] = await changes(changesTool, { since: "last week" })
+		expect(result.frontmatter).toMatchObject({ since: "last week", results: 0 })
+		expect(result.body).toContain("is not a date")
+	})
+})
+
+describe("changes tool without git", () => {
+	let project: DocsProject
+	let changesTool: ChangesTool
+
+	beforeAll(async () => {
+		project = await createDocsProject({
+			"docs/old.md": "# Old\n\nUntouched for a while.\n",
+			"docs/fresh.md": "Recently written.\n\n## Details\n\nMore about it.\n",
+			// A truncated manifest is ignored rather than failing the tool
+			"docs/changelog-manifest.json": '{"format":1,"source":"git","documents":['
+		})
+		await fs.utimes(path.join(project.rootDir, "docs", "old.md"), new Date("2023-06-01T00:00:00Z"), new Date("2023-06-01T00:00:00Z"))
+		await fs.utimes(path.join(project.rootDir, "docs", "fresh.md"), new Date("2024-06-01T00:00:00Z"), new Date("2024-06-01T00:00:00Z"))
+
+		const config = loadConfig({ configPath: project.configPath, templatePath })
+		changesTool = await createChangesTool(config)
+	})
+
+	afterAll(async () => {
+		await project.cleanup()
+	})
+
+	it("falls back to file modification times", async () => {
+		const [fresh, ...rest] = await changes(changesTool, { since: "2024-01-01" })
+		expect(rest).toHaveLength(0)
+		expect(fresh.frontmatter).toMatchObject({ path: "fresh.md", changed: "2024-06-01T00:00:00.000Z" })
+		expect(fresh.frontmatter.commits).toBeUndefined()
+		expect(fresh.body).toBe("- **Introduction** (added): Recently written.\n- **Details** (added, `fresh.md#details`): More about it.")
+	})
+
+	it("says when nothing changed", async () => {
+		const [result] = await changes(changesTool, { since: "2025-01-01" })
+		expect(result.frontmatter).toMatchObject({ results: 0 })
+		expect(result.body).toContain("No documents changed since 2025-01-01")
+	})
+})
+
+describe("changes tool with uncommitted edits", () => {
+	let project: DocsProject
+	let changesTool: ChangesTool
+
+	beforeAll(async () => {
+		project = await createDocsProject({
+			"docs/stable.md": "# Stable\n\nSettled long ago.\n",
+			"docs/edited.md": "# Edited\n\nThe intro.\n\n## Usage\n\nCall it once.\n"
+		})
+		const git = (...args: string[]) =>
+			execFileSync("git", ["-c", "user.name=Docs", "-c", "user.email=docs@example.com", ...args], {
+				cwd: project.rootDir,
+				env: { ...process.env, GIT_AUTHOR_DATE: "2020-01-10T12:00:00Z", GIT_COMMITTER_DATE: "2020-01-10T12:00:00Z" }
+			})
+		git("init", "-q")
+		git("add", "-A")
+		git("commit", "-qm", "Old release")
+		await fs.writeFile(path.join(project.rootDir, "docs", "edited.md"), "# Edited\n\nThe intro.\n\n## Usage\n\nCall it twice.\n")
+		await fs.writeFile(path.join(project.rootDir, "docs", "draft.md"), "# Draft\n\nNot committed yet.\n")
+
+		const config = loadConfig({ configPath: project.configPath, templatePath })
+		changesTool = await createChangesTool(config)
+	})
+
+	afterAll(async () => {
+		await project.cleanup()
+	})
+
+	it("compares working copies with HEAD and leaves unchanged pages out", async () => {
+		const results = await changes(changesTool, { since: "2024-01-01" })
+		expect(results.map((result) => result.frontmatter.path).sort()).toEqual(["draft.md", "edited.md"])
+		const edited = results.find((result) => result.frontmatter.path === "edited.md")
+		expect(edited?.body).toBe("- **Usage** (changed, `edited.md#usage`): Call it twice.")
+		const draft = results.find((result) => result.frontmatter.path === "draft.md")
+		expect(draft?.body).toBe("- **Draft** (added, `draft.md#draft`): Not committed yet.")
+	})
+
+	it("reads history again once the cached copy expires", async () => {
+		const stablePath = path.join(project.rootDir, "docs", "stable.md")
+		const before = await changes(changesTool, { since: "2024-01-01" })
+		expect(before.map((result) => result.frontmatter.path)).not.toContain("stable.md")
+		await fs.writeFile(stablePath, "# Stable\n\nEdited while serving.\n")
+
+		vi.useFakeTimers({ toFake: ["Date"] })
+		try {
+			vi.setSystemTime(Date.now() + 5 * 60 * 1000)
+			const after = await changes(changesTool, { since: "2024-01-01" })
+			expect(after.map((result) => result.frontmatter.path)).toContain("stable.md")
+		} finally {
+			vi.useRealTimers()
+			await fs.writeFile(stablePath, "# Stable\n\nSettled long ago.\n")
+		}
+	})
+})
@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it } from "vitest"
+import { createDocsTool } from "../../src/tools/docs.js"
+import { loadConfig } from "../../src/utils/config.js"
+import { createDocsProject, type DocsProject, templatePath } from "../utils/fixtures.js"
+
+describe("docs tool featured sections", () => {
+	let project: DocsProject | undefined
+
+	afterEach(async () => {
+		await project?.cleanup()
+		project = undefined
+	})
+
+	async function describePaths(files: Record<string, string>, config: Record<string, unknown> = {}) {
+		project = await createDocsProject(files, config)
+		const docsTool = await createDocsTool(loadConfig({ configPath: project.configPath, templatePath }))
+		return docsTool.config.inputSchema.shape.paths.description ?? ""
+	}
+
+	it("expands reference/ by default", async () => {
+		const description = await describePaths({
+			"docs/reference/auth/index.md": "# Auth\n",
+			"docs/reference/cli.md": "# CLI\n",
+			"docs/api/users.md": "# Users\n"
+		})
+		expect(description).toContain("Featured sections:\n- reference/\n  - reference/auth/\n  - reference/cli.md")
+		expect(description).not.toContain("api/users.md")
+	})
+
+	it("expands the configured sections to their depth, with descriptions when asked", async () => {
+		const description = await describePaths(
+			{
+				"docs/api/index.md": "---\ntitle: API\ndescription: Every endpoint\n---\n# API\n",
+				"docs/api/users/index.md": "---\ntitle: Users\ndescription: Manage accounts\n---\n# Users\n",
+				"docs/api/users/roles/index.md": "# Roles\n",
+				"docs/api/users/create.md": "---\ntitle: Create a user\n---\n# Create\n",
+				"docs/sdk/python.md": "# Python\n",
+				"docs/reference/cli.md": "# CLI\n"
+			},
+			{ featured: [{ path: "api", depth: 2, descriptions: true }, "sdk"] }
+		)
+		expect(description).toContain(
+			["Featured sections:", "- api/ — API: Every endpoint", "  - api/users/ — Users: Manage accounts", "    - api/users/roles/", "    - api/users/create.md — Create a user", "- sdk/", "  - sdk/python.md"].join("\n")
+		)
+		expect(description).not.toContain("reference/cli.md")
+	})
+
+	it("keeps the featured listing within its length budget", async () => {
+		const files = Object.fromEntries(Array.from({ length: 300 }, (_, index) => [`docs/api/endpoint-with-a-long-name-${String(index).padStart(3, "0")}.md`, "# Endpoint\n"]))
+		const description = await describePaths(files, { featured: ["api"] })
+		const featured = description.slice(description.indexOf("Featured sections:"), description.indexOf("\nFiles:"))
+		expect(featured.length).toBeLessThan(4200)
+		expect(featured).toMatch(/- … \d+ more entries/)
+	})
+
+	it("keeps the whole top-level listing within one length budget", async () => {
+		const files = Object.fromEntries([
+			...Array.from({ length: 300 }, (_, index) => [`docs/page-with-a-long-name-${String(index).padStart(3, "0")}.md`, "# Page\n"]),
+			...Array.from({ length: 50 }, (_, index) => [`docs/folder-${String(index).padStart(2, "0")}/index.md`, "# Folder\n"]),
+			["docs/reference/cli.md", "# CLI\n"]
+		])
+		const description = await describePaths(files)
+		const listing = description.slice(description.indexOf("Directories:"))
+		expect(listing.length).toBeLessThan(4200)
+		expect(listing).toContain("- folder-49/\n- reference/\nFeatured sections:\n- reference/\n  - reference/cli.md\nFiles:\n- page-with-a-long-name-000.md")
+		expect(listing).toMatch(/\n- … \d+ more entries; list a directory with this tool to see them all$/)
+	})
+})
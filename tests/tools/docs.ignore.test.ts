@@ -0,0 +1,69 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js"
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { createDocsTool } from "../../src/tools/docs.js"
+import { createSearchTool } from "../../src/tools/search.js"
+import { loadConfig } from "../../src/utils/config.js"
+import { createDocsProject, type DocsProject, parseFrontmatter, templatePath } from "../utils/fixtures.js"
+
+const emptyExtra = {
+	signal: new AbortController().signal
+} as RequestHandlerExtra<ServerRequest, ServerNotification>
+
+describe("docs tool ignore rules and draft pages", () => {
+	let project: DocsProject
+	let docsTool: Awaited<ReturnType<typeof createDocsTool>>
+	let searchTool: Awaited<ReturnType<typeof createSearchTool>>
+
+	beforeAll(async () => {
+		project = await createDocsProject(
+			{
+				"docs/.docsignore": "_drafts/\n",
+				"docs/index.md": "# Home\n\nPelican overview.\n",
+				"docs/README.md": "# Repository readme\n\nPelican stub.\n",
+				"docs/_drafts/next.md": "# Next release\n\nPelican plans.\n",
+				"docs/guides/wip.md": "---\ndraft: true\n---\n# Work in progress\n\nPelican draft.\n",
+				"docs/guides/internal.md": "---\nhidden: true\n---\n# Internal\n\nPelican internals.\n",
+				"docs/guides/public.md": "# Public\n\nPelican guide.\n"
+			},
+			{ ignore: ["README.md"] }
+		)
+		const config = loadConfig({ configPath: project.configPath, templatePath })
+		docsTool = await createDocsTool(config)
+		searchTool = await createSearchTool(config)
+	})
+
+	afterAll(async () => {
+		await project.cleanup()
+	})
+
+	async function read(path: string) {
+		const result = await docsTool.cb({ paths: [path] }, emptyExtra)
+		return parseFrontmatter(result.content[0]?.type === "text" ? result.content[0].text : "")
+	}
+
+	it("leaves ignored, draft and hidden files out of listings", async () => {
+		const root = await read(".")
+		expect(root.body).not.toContain("_drafts")
+		expect(root.body).not.toContain("README.md")
+		expect(docsTool.config.inputSchema.shape.paths.description).not.toContain("README.md")
+
+		const guides = await read("guides")
+		expect(guides.body).toContain("docs/guides/public.md")
+		expect(guides.body).not.toContain("wip.md")
+		expect(guides.body).not.toContain("internal.md")
+	})
+
+	it("leaves ignored, draft and hidden files out of search", async () => {
+		const result = await searchTool.cb({ query: "pelican" }, emptyExtra)
+		const paths = result.content.map((item) => parseFrontmatter(item.type === "text" ? item.text : "").frontmatter.path)
+		expect(paths.sort()).toEqual(["guides/public.md", "index.md"])
+	})
+
+	it("refuses direct reads of ignored and draft files but serves hidden ones", async () => {
+		expect((await read("_drafts/next.md")).frontmatter.error).toBe('Path "_drafts/next.md" not found.')
+		expect((await read("readme")).frontmatter.error).toBe('Path "readme" not found.')
+		expect((await read("guides/wip.md")).frontmatter.error).toBe('Path "guides/wip.md" not found.')
+		expect((await read("guides/internal.md")).body).toContain("Pelican internals.")
+	})
+})
@@ -0,0 +1,59 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js"
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { createDocsTool } from "../../src/tools/docs.js"
+import { loadConfig } from "../../src/utils/config.js"
+import { createDocsProject, type DocsProject, parseFrontmatter, templatePath } from "../utils/fixtures.js"
+
+const emptyExtra = {
+	signal: new AbortController().signal
+} as RequestHandlerExtra<ServerRequest, ServerNotification>
+
+describe("docs tool include directives", () => {
+	let project: DocsProject
+	let docsTool: Awaited<ReturnType<typeof createDocsTool>>
+
+	beforeAll(async () => {
+		project = await createDocsProject({
+			"docs/shared/install.md": "---\ntitle: Install snippet\n---\nRun `npm install`.\n\n<!-- include: warning.md -->\n\nSee [configuration](../guides/config.md).\n",
+			"docs/shared/warning.md": "> Never commit tokens.\n",
+			"docs/shared/loop-a.md": "A\n<!-- include: loop-b.md -->\n",
+			"docs/shared/loop-b.md": "B\n<!-- include: loop-a.md -->\n",
+			"docs/guides/config.md": "# Config\n",
+			"docs/guides/setup.md": "# Setup\n\n<!-- include: ../shared/install.md -->\n\n```md\n<!-- include: ../shared/warning.md -->\n```\n",
+			"docs/guides/component.mdx": '# Component\n\n<Include path="../shared/warning.md" />\n',
+			"docs/guides/broken.md": "# Broken\n\n<!-- include: ../shared/loop-a.md -->\n<!-- include: ../../mcp-docs-server.json -->\n<!-- include: ../shared/missing.md -->\n"
+		})
+		docsTool = await createDocsTool(loadConfig({ configPath: project.configPath, templatePath }))
+	})
+
+	afterAll(async () => {
+		await project.cleanup()
+	})
+
+	async function readBody(path: string, renderMdx?: boolean): Promise<string> {
+		const result = await docsTool.cb({ paths: [path], renderMdx }, emptyExtra)
+		return parseFrontmatter(result.content[0]?.type === "text" ? result.content[0].text : "").body
+	}
+
+	it("expands nested includes and keeps their links pointing at the right documents", async () => {
+		const body = await readBody("guides/setup.md")
+		expect(body).toContain("Run `npm install`.\n\n> Never commit tokens.\n\nSee [configuration](guides/config.md).")
+		expect(body).not.toContain("Install snippet")
+		// Directives inside code fences are left alone
+		expect(body).toContain("```md\n<!-- include: ../shared/warning.md -->\n```")
+	})
+
+	it("expands the MDX Include component", async () => {
+		const body = await readBody("guides/component.mdx", true)
+		expect(body).toBe("# Component\n\n> Never commit tokens.")
+	})
+
+	it("reports cycles, paths outside the doc root and missing targets in place", async () => {
+		const body = await readBody("guides/broken.md")
+		expect(body).toContain("<!-- include failed: loop-a.md (include cycle: guides/broken.md -> shared/loop-a.md -> shared/loop-b.md -> shared/loop-a.md) -->")
+		expect(body).toContain("<!-- include failed: ../../mcp-docs-server.json (target must be a Markdown file inside the documentation root) -->")
+		expect(body).toContain("<!-- include failed: ../shared/missing.md (not found) -->")
+		expect(body).not.toContain('"package"')
+	})
+})
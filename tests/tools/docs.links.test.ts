@@ -0,0 +1,69 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js"
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { createDocsTool } from "../../src/tools/docs.js"
+import { loadConfig } from "../../src/utils/config.js"
+import { createDocsProject, type DocsProject, parseFrontmatter, templatePath } from "../utils/fixtures.js"
+
+const emptyExtra = {
+	signal: new AbortController().signal
+} as RequestHandlerExtra<ServerRequest, ServerNotification>
+
+describe("docs tool link graph", () => {
+	let project: DocsProject
+	let docsTool: Awaited<ReturnType<typeof createDocsTool>>
+
+	beforeAll(async () => {
+		project = await createDocsProject({
+			"docs/index.md": "# Home\n\nStart with [auth](reference/config/auth.md) or the [guides](guides/).\n",
+			"docs/guides/index.md": "# Guides\n",
+			"docs/reference/api/tokens.md": [
+				"# Tokens",
+				"",
+				"See [auth settings](../config/auth.md#scopes), the [home page](/index.md) and [itself](#tokens).",
+				"Read the [docs site](https://example.com/docs.md) or ![a diagram](../diagram.png).",
+				"",
+				"```md",
+				"[untouched](../config/auth.md)",
+				"```",
+				"",
+				"[ref]: ../config/auth"
+			].join("\n"),
+			"docs/reference/config/auth.md": "# Auth\n\n## Scopes\n"
+		})
+		docsTool = await createDocsTool(loadConfig({ configPath: project.configPath, templatePath }))
+	})
+
+	afterAll(async () => {
+		await project.cleanup()
+	})
+
+	async function read(path: string) {
+		const result = await docsTool.cb({ paths: [path] }, emptyExtra)
+		return parseFrontmatter(result.content[0]?.type === "text" ? result.content[0].text : "")
+	}
+
+	it("rewrites relative links to doc-root paths", async () => {
+		const { body } = await read("reference/api/tokens.md")
+		expect(body).toContain("[auth settings](reference/config/auth.md#scopes)")
+		expect(body).toContain("[home page](index.md)")
+		expect(body).toContain("[itself](#tokens)")
+		expect(body).toContain("[docs site](https://example.com/docs.md)")
+		expect(body).toContain("![a diagram](../diagram.png)")
+		expect(body).toContain("[untouched](../config/auth.md)")
+		expect(body).toContain("[ref]: reference/config/auth")
+	})
+
+	it("reports linksTo and linkedFrom in the response metadata", async () => {
+		const tokens = await read("reference/api/tokens.md")
+		expect(tokens.frontmatter.linksTo).toEqual(["reference/config/auth.md", "index.md"])
+		expect(tokens.frontmatter.linkedFrom).toBeUndefined()
+
+		const auth = await read("reference/config/auth.md")
+		expect(auth.frontmatter.linksTo).toBeUndefined()
+		expect(auth.frontmatter.linkedFrom).toEqual(["index.md", "reference/api/tokens.md"])
+
+		const home = await read("index.md")
+		expect(home.frontmatter.linksTo).toEqual(["reference/config/auth.md", "guides/index.md"])
+	})
+})
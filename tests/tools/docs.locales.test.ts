@@ -0,0 +1,81 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js"
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { createDocsTool } from "../../src/tools/docs.js"
+import { createSearchTool } from "../../src/tools/search.js"
+import { loadConfig } from "../../src/utils/config.js"
+import { createDocsProject, type DocsProject, parseFrontmatter, templatePath } from "../utils/fixtures.js"
+
+const emptyExtra = {
+	signal: new AbortController().signal
+} as RequestHandlerExtra<ServerRequest, ServerNotification>
+
+describe("docs tool with localized docs", () => {
+	let project: DocsProject
+	let docsTool: Awaited<ReturnType<typeof createDocsTool>>
+	let searchTool: Awaited<ReturnType<typeof createSearchTool>>
+
+	beforeAll(async () => {
+		project = await createDocsProject(
+			{
+				"docs/en/index.md": "# Home\n",
+				"docs/en/guides/auth.md": "# Authentication\n\nConfigure OAuth tokens.\n",
+				"docs/en/guides/billing.md": "# Billing\n\nInvoices are sent monthly.\n",
+				"docs/ja/index.md": "# ホーム\n",
+				"docs/ja/guides/auth.md": "# 認証\n\nOAuthトークンを設定します。\n",
+				"docs/ko/index.md": "# 홈\n"
+			},
+			{ locales: ["en", "ja", "ko"], defaultLocale: "en" }
+		)
+		const config = loadConfig({ configPath: project.configPath, templatePath })
+		docsTool = await createDocsTool(config)
+		searchTool = await createSearchTool(config)
+	})
+
+	afterAll(async () => {
+		await project.cleanup()
+	})
+
+	async function read(path: string, locale?: string) {
+		const result = await docsTool.cb({ paths: [path], locale }, emptyExtra)
+		return parseFrontmatter(result.content[0]?.type === "text" ? result.content[0].text : "")
+	}
+
+	it("reads the default locale unless another is requested", async () => {
+		const english = await read("guides/auth.md")
+		expect(english.body).toContain("Configure OAuth tokens.")
+		expect(english.frontmatter.locale).toBe("en")
+
+		const japanese = await read("guides/auth.md", "ja")
+		expect(japanese.body).toContain("OAuthトークンを設定します。")
+		expect(japanese.frontmatter.locale).toBe("ja")
+		expect(japanese.frontmatter.requestedLocale).toBeUndefined()
+	})
+
+	it("falls back to the default locale for missing translations and reports it", async () => {
+		const { frontmatter, body } = await read("guides/billing.md", "ja")
+		expect(body).toContain("Invoices are sent monthly.")
+		expect(frontmatter.locale).toBe("en")
+		expect(frontmatter.requestedLocale).toBe("ja")
+	})
+
+	it("lists the requested locale without exposing the locale folders", async () => {
+		const description = docsTool.config.inputSchema.shape.paths.description ?? ""
+		expect(description).toContain("- guides/")
+		expect(description).not.toContain("en/")
+
+		const listing = await read("guides", "ja")
+		expect(listing.body).toContain("guides/auth.md")
+		expect(listing.body).not.toContain("billing.md")
+	})
+
+	it("searches the requested locale with CJK-aware tokens", async () => {
+		const result = await searchTool.cb({ query: "トークン", locale: "ja" }, emptyExtra)
+		const hits = result.content.map((item) => (item.type === "text" ? parseFrontmatter(item.text) : undefined))
+		expect(hits.map((hit) => hit?.frontmatter.path)).toEqual(["guides/auth.md"])
+		expect(hits[0]?.body).toContain("**トークン**")
+
+		const english = await searchTool.cb({ query: "トークン" }, emptyExtra)
+		expect(english.content[0]?.type === "text" ? parseFrontmatter(english.content[0].text).frontmatter.results : undefined).toBe(0)
+	})
+})
@@ -0,0 +1,68 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js"
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { createDocsTool } from "../../src/tools/docs.js"
+import { createSearchTool } from "../../src/tools/search.js"
+import { loadConfig } from "../../src/utils/config.js"
+import { createDocsProject, type DocsProject, parseFrontmatter, templatePath } from "../utils/fixtures.js"
+
+const emptyExtra = {
+	signal: new AbortController().signal
+} as RequestHandlerExtra<ServerRequest, ServerNotification>
+
+const widgetsMdx = `---
+title: Widgets
+---
+import { Tabs } from "../components"
+
+# Widgets
+
+<Tabs items={["npm", "bun"]}>
+  Install the **widget** package.
+</Tabs>
+`
+
+describe("MDX documents", () => {
+	let project: DocsProject
+	let docsTool: Awaited<ReturnType<typeof createDocsTool>>
+	let searchTool: Awaited<ReturnType<typeof createSearchTool>>
+
+	beforeAll(async () => {
+		project = await createDocsProject({
+			"docs/index.md": "# Home\n",
+			"docs/guides/widgets.mdx": widgetsMdx,
+			"docs/guides/basics.md": "# Basics\n"
+		})
+		const config = loadConfig({ configPath: project.configPath, templatePath })
+		docsTool = await createDocsTool(config)
+		searchTool = await createSearchTool(config)
+	})
+
+	afterAll(async () => {
+		await project.cleanup()
+	})
+
+	it("lists MDX files in subdirectories", async () => {
+		const result = await docsTool.cb({ paths: ["guides"] }, emptyExtra)
+		const { body } = parseFrontmatter(result.content[0]?.type === "text" ? result.content[0].text : "")
+		expect(body).toContain("- docs/guides/widgets.mdx — Widgets")
+		expect(body).toContain("- docs/guides/basics.md")
+	})
+
+	it("indexes MDX prose for search", async () => {
+		const result = await searchTool.cb({ query: "widget package" }, emptyExtra)
+		const { frontmatter, body } = parseFrontmatter(result.content[0]?.type === "text" ? result.content[0].text : "")
+		expect(frontmatter.path).toBe("guides/widgets.mdx")
+		expect(body).not.toContain("Tabs")
+	})
+
+	it("returns raw MDX by default and plain Markdown on request", async () => {
+		const raw = await docsTool.cb({ paths: ["guides/widgets.mdx"] }, emptyExtra)
+		expect(parseFrontmatter(raw.content[0]?.type === "text" ? raw.content[0].text : "").body).toContain("<Tabs")
+
+		const rendered = await docsTool.cb({ paths: ["guides/widgets.mdx"], renderMdx: true }, emptyExtra)
+		const { frontmatter, body } = parseFrontmatter(rendered.content[0]?.type === "text" ? rendered.content[0].text : "")
+		expect(frontmatter.title).toBe("Widgets")
+		expect(body).toBe("# Widgets\n\nInstall the **widget** package.")
+	})
+})
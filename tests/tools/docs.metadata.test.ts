@@ -0,0 +1,65 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js"
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { createDocsTool } from "../../src/tools/docs.js"
+import { loadConfig } from "../../src/utils/config.js"
+import { createDocsProject, type DocsProject, parseFrontmatter, templatePath } from "../utils/fixtures.js"
+
+const emptyExtra = {
+	signal: new AbortController().signal
+} as RequestHandlerExtra<ServerRequest, ServerNotification>
+
+describe("docs tool frontmatter metadata", () => {
+	let project: DocsProject
+	let docsTool: Awaited<ReturnType<typeof createDocsTool>>
+
+	beforeAll(async () => {
+		project = await createDocsProject({
+			"docs/index.md": "---\ntitle: Welcome\ndescription: Start here\n---\n# Welcome\n\nHello.\n",
+			"docs/guides/auth.md": "---\ntitle: Authentication\ndescription: how to configure OAuth\ntags: [security, oauth]\norder: 2\n---\n# Auth\n",
+			"docs/guides/install.md": "---\ntitle: Installation\norder: 1\n---\n# Install\n",
+			"docs/guides/zzz.md": "# No frontmatter\n",
+			"docs/billing.md": "---\ntitle: Billing\nsection: Payments\nlocale: fr\n---\n# Invoices\n"
+		})
+		docsTool = await createDocsTool(loadConfig({ configPath: project.configPath, templatePath }))
+	})
+
+	afterAll(async () => {
+		await project.cleanup()
+	})
+
+	it("shows titles and descriptions in directory listings, ordered by `order`", async () => {
+		const result = await docsTool.cb({ paths: ["guides"] }, emptyExtra)
+		const { body } = parseFrontmatter(result.content[0]?.type === "text" ? result.content[0].text : "")
+		const filesSection = body.split("## Files")[1]?.split("---")[0] ?? ""
+		const fileLines = filesSection.split("\n").filter((line) => line.startsWith("- "))
+		expect(fileLines).toEqual(["- docs/guides/install.md — Installation", "- docs/guides/auth.md — Authentication: how to configure OAuth", "- docs/guides/zzz.md"])
+	})
+
+	it("shows titles in the top-level listing of the tool description", () => {
+		const description = docsTool.config.inputSchema.shape.paths.description ?? ""
+		expect(description).toContain("- index.md — Welcome: Start here")
+	})
+
+	it("merges document frontmatter into the response header instead of the body", async () => {
+		const result = await docsTool.cb({ paths: ["guides/auth.md"] }, emptyExtra)
+		const text = result.content[0]?.type === "text" ? result.content[0].text : ""
+		const { frontmatter, body } = parseFrontmatter(text)
+		expect(frontmatter).toMatchObject({ path: "guides/auth.md", title: "Authentication", tags: ["security", "oauth"], order: 2 })
+		expect(body).toBe("# Auth")
+		expect(text.match(/^---$/gm)).toHaveLength(2)
+	})
+	it("leaves out document keys the server writes itself, but keeps them in structured output", async () => {
+		const result = await docsTool.cb({ paths: ["billing.md"] }, emptyExtra)
+		const { frontmatter } = parseFrontmatter(result.content[0]?.type === "text" ? result.content[0].text : "")
+		expect(frontmatter).toMatchObject({ path: "billing.md", title: "Billing" })
+		expect(frontmatter).not.toHaveProperty("section")
+		expect(frontmatter).not.toHaveProperty("locale")
+
+		const [structured] = (result.structuredContent as { results: Array<Record<string, unknown>> }).results
+		expect(structured?.metadata).toMatchObject({ section: "Payments", locale: "fr" })
+
+		const section = await docsTool.cb({ paths: ["billing.md#invoices"] }, emptyExtra)
+		expect(parseFrontmatter(section.content[0]?.type === "text" ? section.content[0].text : "").frontmatter.section).toBe("Invoices")
+	})
+})
@@ -0,0 +1,87 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js"
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { createDocsTool } from "../../src/tools/docs.js"
+import type { DocsServerConfig } from "../../src/utils/config.js"
+import { loadConfig } from "../../src/utils/config.js"
+import { findBrokenRedirects } from "../../src/utils/paths.js"
+import { createDocsProject, type DocsProject, parseFrontmatter, templatePath } from "../utils/fixtures.js"
+
+const emptyExtra = {
+	signal: new AbortController().signal
+} as RequestHandlerExtra<ServerRequest, ServerNotification>
+
+describe("docs tool redirects", () => {
+	let project: DocsProject
+	let config: DocsServerConfig
+	let docsTool: Awaited<ReturnType<typeof createDocsTool>>
+
+	beforeAll(async () => {
+		project = await createDocsProject(
+			{
+				"docs/getting-started/install.md": "# Install\n\nInstall the kestrel CLI.\n\n## Verify\n\nRun kestrel --version.\n",
+				"docs/tutorials/first-app.md": "# First app\n\nBuild a kestrel app.\n",
+				"docs/reference/cli.md": "---\ntitle: CLI\nredirect_from:\n  - commands.md\n  - reference/commands\n---\n# CLI\n\nEvery kestrel command.\n",
+				"docs/guides/kept.md": "# Kept\n\nThis page did not move.\n"
+			},
+			{ redirects: { "guides/setup.md": "getting-started/install.md", guides: "tutorials", "old/faq.md": "help/faq.md", "legacy/index.md": "tutorials" } }
+		)
+		config = loadConfig({ configPath: project.configPath, templatePath })
+		docsTool = await createDocsTool(config)
+	})
+
+	afterAll(async () => {
+		await project.cleanup()
+	})
+
+	async function read(path: string) {
+		const result = await docsTool.cb({ paths: [path] }, emptyExtra)
+		return parseFrontmatter(result.content[0]?.type === "text" ? result.content[0].text : "")
+	}
+
+	it("serves configured redirects from the new location", async () => {
+		const { frontmatter, body } = await read("guides/setup")
+		expect(frontmatter).toMatchObject({ path: "guides/setup", resolvedPath: "getting-started/install.md", movedFrom: "guides/setup.md" })
+		expect(body).toContain("Install the kestrel CLI.")
+	})
+
+	it("keeps the requested anchor across a redirect", async () => {
+		const { frontmatter, body } = await read("guides/setup.md#verify")
+		expect(frontmatter).toMatchObject({ section: "Verify", movedFrom: "guides/setup.md" })
+		expect(body).toContain("Run kestrel --version.")
+		expect(body).not.toContain("Install the kestrel CLI.")
+	})
+
+	it("redirects every page below a moved folder, unless it still exists", async () => {
+		const moved = await read("guides/first-app.md")
+		expect(moved.frontmatter).toMatchObject({ resolvedPath: "tutorials/first-app.md", movedFrom: "guides" })
+		expect(moved.body).toContain("Build a kestrel app.")
+
+		const kept = await read("guides/kept.md")
+		expect(kept.frontmatter.movedFrom).toBeUndefined()
+		expect(kept.body).toContain("This page did not move.")
+	})
+
+	it("redirects pages below a folder redirected through its index page", async () => {
+		const { frontmatter, body } = await read("legacy/first-app.md")
+		expect(frontmatter).toMatchObject({ resolvedPath: "tutorials/first-app.md", movedFrom: "legacy/index.md" })
+		expect(body).toContain("Build a kestrel app.")
+	})
+
+	it("serves paths listed in redirect_from frontmatter", async () => {
+		for (const oldPath of ["commands.md", "reference/commands.md"]) {
+			const { frontmatter, body } = await read(oldPath)
+			expect(frontmatter).toMatchObject({ path: oldPath, resolvedPath: "reference/cli.md", title: "CLI" })
+			expect(body).toContain("Every kestrel command.")
+		}
+	})
+
+	it("reports redirects to missing pages as not found", async () => {
+		const { frontmatter } = await read("old/faq.md")
+		expect(frontmatter.error).toBe('Path "old/faq.md" not found.')
+	})
+
+	it("flags redirects whose targets no longer exist", async () => {
+		expect(await findBrokenRedirects(config)).toEqual([{ from: "old/faq.md", to: "help/faq.md" }])
+	})
+})
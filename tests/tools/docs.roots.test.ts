@@ -0,0 +1,107 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js"
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { createDocsTool } from "../../src/tools/docs.js"
+import { createSearchTool } from "../../src/tools/search.js"
+import { loadConfig } from "../../src/utils/config.js"
+import { createDocsProject, type DocsProject, parseFrontmatter, templatePath } from "../utils/fixtures.js"
+
+const emptyExtra = {
+	signal: new AbortController().signal
+} as RequestHandlerExtra<ServerRequest, ServerNotification>
+
+describe("docs tool with multiple doc roots", () => {
+	let project: DocsProject
+	let docsTool: Awaited<ReturnType<typeof createDocsTool>>
+	let searchTool: Awaited<ReturnType<typeof createSearchTool>>
+
+	beforeAll(async () => {
+		project = await createDocsProject(
+			{
+				"docs/index.md": "# Home\n\nSee the [overview](overview.md).\n",
+				"docs/overview.md": "# Overview\n",
+				"api-reference/users.md": "# Users API\n\nList users.\n",
+				"ops/runbooks/deploy/rollback.md": "# Rollback\n\nRevert the flamingo release. See [restart](../restart.md).\n",
+				"ops/runbooks/restart.md": "# Restart\n",
+				"ops/runbooks/overview.md": "# Runbooks overview\n"
+			},
+			{ docs: { docs: "docs", api: "api-reference", runbooks: "ops/runbooks" } }
+		)
+		const config = loadConfig({ configPath: project.configPath, templatePath })
+		docsTool = await createDocsTool(config)
+		searchTool = await createSearchTool(config)
+	})
+
+	afterAll(async () => {
+		await project.cleanup()
+	})
+
+	async function read(path: string) {
+		const result = await docsTool.cb({ paths: [path] }, emptyExtra)
+		return parseFrontmatter(result.content[0]?.type === "text" ? result.content[0].text : "")
+	}
+
+	it("lists the top-level entries of every root with their names", () => {
+		const description = docsTool.config.inputSchema.shape.paths.description ?? ""
+		expect(description).toContain("- runbooks:deploy/")
+		expect(description).toContain("- api:users.md")
+		expect(description).toContain("- docs:index.md")
+	})
+
+	it("addresses documents by root name or by root folder", async () => {
+		const named = await read("runbooks:deploy/rollback.md")
+		expect(named.frontmatter.resolvedPath).toBeUndefined()
+		expect(named.body).toContain("Revert the flamingo release.")
+
+		const prefixed = await read("ops/runbooks/deploy/rollback")
+		expect(prefixed.frontmatter.resolvedPath).toBe("runbooks:deploy/rollback.md")
+		expect(prefixed.body).toContain("Revert the flamingo release.")
+	})
+
+	it("tries unqualified paths against each root in order", async () => {
+		expect((await read("overview.md")).body).toBe("# Overview")
+		expect((await read("runbooks:overview.md")).body).toBe("# Runbooks overview")
+
+		const users = await read("users.md")
+		expect(users.frontmatter.resolvedPath).toBe("api:users.md")
+	})
+
+	it("qualifies rewritten links and related documents with the root name", async () => {
+		const rollback = await read("runbooks:deploy/rollback.md")
+		expect(rollback.body).toContain("[restart](runbooks:restart.md)")
+		expect(rollback.frontmatter.linksTo).toEqual(["runbooks:restart.md"])
+		expect((await read("docs:overview.md")).frontmatter.linkedFrom).toEqual(["docs:index.md"])
+	})
+
+	it("qualifies directory listings and trees with the root name", async () => {
+		const listing = await read("runbooks:.")
+		expect(listing.body).toContain("- runbooks:deploy/")
+		expect(listing.body).toContain("- runbooks:restart.md")
+
+		const result = await docsTool.cb({ paths: ["runbooks:."], depth: 2 }, emptyExtra)
+		const tree = parseFrontmatter(result.content[0]?.type === "text" ? result.content[0].text : "").body
+		expect(tree).toContain("- runbooks:deploy/ (1 file)")
+		expect(tree).toContain("  - runbooks:deploy/rollback.md")
+		expect(tree).not.toContain("ops/runbooks/")
+	})
+
+	it("searches across all roots", async () => {
+		const result = await searchTool.cb({ query: "flamingo" }, emptyExtra)
+		const { frontmatter } = parseFrontmatter(result.content[0]?.type === "text" ? result.content[0].text : "")
+		expect(frontmatter.path).toBe("runbooks:deploy/rollback.md")
+	})
+
+	it("suggests close matches from every root", async () => {
+		const { frontmatter } = await read("deploy/rollbak.md")
+		expect(frontmatter.didYouMean).toEqual(["runbooks:deploy/rollback.md"])
+	})
+
+	it("rejects duplicate root names", async () => {
+		const duplicate = await createDocsProject({ "a/docs/index.md": "# A\n", "b/docs/index.md": "# B\n" }, { docs: ["a/docs", "b/docs"] })
+		try {
+			expect(() => loadConfig({ configPath: duplicate.configPath, templatePath })).toThrow('Doc root name "docs" is used more than once.')
+		} finally {
+			await duplicate.cleanup()
+		}
+	})
+})
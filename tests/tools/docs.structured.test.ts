@@ -0,0 +1,53 @@
+import path from "node:path"
+import { fileURLToPath } from "node:url"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { registerTools } from "../../src/handlers/tools.js"
+import { loadConfig } from "../../src/utils/config.js"
+import { templatePath } from "../utils/fixtures.js"
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url))
+const repoRoot = path.resolve(__dirname, "..", "..")
+const configPath = path.join(repoRoot, "mcp-docs-server.json")
+
+describe("docs tool structured output", () => {
+	const config = loadConfig({ configPath, templatePath })
+	const server = new McpServer({ name: config.name, version: config.version })
+	const client = new Client({ name: "structured-output-test", version: "0.0.0" })
+
+	beforeAll(async () => {
+		await registerTools(server, config)
+		const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+		await Promise.all([server.connect(serverTransport), client.connect(clientTransport)])
+	})
+
+	afterAll(async () => {
+		await client.close()
+		await server.close()
+	})
+
+	it("declares an output schema", async () => {
+		const { tools } = await client.listTools()
+		const docsTool = tools.find((tool) => tool.name === config.tool)
+		expect(docsTool?.outputSchema?.properties).toHaveProperty("results")
+	})
+
+	it("returns typed results alongside the text content", async () => {
+		const result = await client.callTool({
+			name: config.tool,
+			arguments: { paths: [{ path: "configuration.md", limit: 2 }, "commands", "missing-page.md"] }
+		})
+		expect(result.content).toHaveLength(3)
+
+		const { results } = result.structuredContent as { results: Array<Record<string, unknown>> }
+		expect(results.map((entry) => entry.type)).toEqual(["file", "directory", "error"])
+
+		expect(results[0]).toMatchObject({ path: "configuration.md", page: { unit: "lines", start: 0, end: 2, nextOffset: 2 } })
+		expect(results[0]?.page).not.toHaveProperty("content")
+
+		expect(results[1]?.files).toEqual(expect.arrayContaining([expect.objectContaining({ path: "docs/commands/serve.md" })]))
+		expect(results[2]?.error).toBe('Path "missing-page.md" not found.')
+	})
+})
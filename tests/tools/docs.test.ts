@@ -87,6 +87,29 @@ describe("generic docs tool", () => {
 		expect(body).toContain('Path "unknown/path" not found')
 	})
 
+	it.each([
+		["getting-started", "getting-started.md"],
+		["CONFIGURATION.md", "configuration.md"],
+		["Commands/Serve", "commands/serve.md"],
+		["configuration.mdx", "configuration.md"],
+		["commands.md", "commands/index.md"]
+	])("resolves %s to %s", async (requested, resolvedPath) => {
+		const result = await docsTool.cb({ paths: [requested] }, emptyExtra)
+		const textContent = result.content[0]?.type === "text" ? result.content[0].text : ""
+		const { frontmatter } = parseFrontmatter(textContent)
+		expect(frontmatter.error).toBeUndefined()
+		expect(frontmatter.path).toBe(requested)
+		expect(frontmatter.resolvedPath).toBe(resolvedPath)
+	})
+
+	it("offers did-you-mean corrections separately from keyword suggestions", async () => {
+		const result = await docsTool.cb({ paths: ["getting-startd.md"] }, emptyExtra)
+		const textContent = result.content[0]?.type === "text" ? result.content[0].text : ""
+		const { frontmatter } = parseFrontmatter(textContent)
+		expect(frontmatter.error).toContain("not found")
+		expect(frontmatter.didYouMean).toEqual(["getting-started.md"])
+	})
+
 	it("rejects path traversal attempts", async () => {
 		const result = await docsTool.cb({ paths: ["../package.json"] }, emptyExtra)
 		expect(result.content).toBeDefined()
@@ -109,6 +132,64 @@ describe("generic docs tool", () => {
 		expect(body).toContain("Getting Started")
 	})
 
+	it("returns a single section for an anchored path", async () => {
+		const result = await docsTool.cb({ paths: ["configuration.md#configuration-fields"] }, emptyExtra)
+		const textContent = result.content[0]?.type === "text" ? result.content[0].text : ""
+		const { frontmatter, body } = parseFrontmatter(textContent)
+		expect(frontmatter.path).toBe("configuration.md#configuration-fields")
+		expect(frontmatter.section).toBe("Configuration Fields")
+		expect(body).toMatch(/^## Configuration Fields/)
+		// Nested subsections are included, sibling sections are not
+		expect(body).toContain("### Example")
+		expect(body).not.toContain("## How It Works")
+	})
+
+	it("lists available anchors when the anchor is unknown", async () => {
+		const result = await docsTool.cb({ paths: ["configuration.md#missing-section"] }, emptyExtra)
+		const textContent = result.content[0]?.type === "text" ? result.content[0].text : ""
+		const { frontmatter, body } = parseFrontmatter(textContent)
+		expect(frontmatter.error).toBe('Anchor "#missing-section" not found in "configuration.md".')
+		expect(body).toContain("Available anchors:")
+		expect(body).toContain("- configuration.md#how-it-works")
+		expect(body).not.toContain("Available top-level paths")
+	})
+
+	it("returns a page of a document with a continuation cursor", async () => {
+		const result = await docsTool.cb({ paths: [{ path: "configuration.md", offset: 2, limit: 3 }] }, emptyExtra)
+		const textContent = result.content[0]?.type === "text" ? result.content[0].text : ""
+		const { frontmatter, body } = parseFrontmatter(textContent)
+		expect(frontmatter.path).toBe("configuration.md")
+		expect(frontmatter.returnedRange).toEqual({ unit: "lines", start: 2, end: 5 })
+		expect(frontmatter.nextOffset).toBe(5)
+		expect(Number(frontmatter.totalLines)).toBeGreaterThan(5)
+		expect(body.split("\n").length).toBeLessThanOrEqual(3)
+		expect(body).not.toContain("# Configuration Reference")
+	})
+
+	it("returns a heading outline instead of contents in outline mode", async () => {
+		const result = await docsTool.cb({ paths: ["configuration.md"], mode: "outline" }, emptyExtra)
+		const textContent = result.content[0]?.type === "text" ? result.content[0].text : ""
+		const { frontmatter, body } = parseFrontmatter(textContent)
+		expect(frontmatter.mode).toBe("outline")
+		expect(Number(frontmatter.headings)).toBe(body.split("\n").length)
+		expect(body).toMatch(/^- # Configuration Reference — configuration\.md#configuration-reference \(line 1, \d+ lines, \d+ characters\)/)
+		expect(body).toMatch(/\n {2}- ## How It Works — configuration\.md#how-it-works \(line \d+/)
+		expect(body).not.toContain("Path traversal attempts")
+	})
+
+	it("omits documents that exceed the token budget in request order", async () => {
+		const result = await docsTool.cb({ paths: ["configuration.md", "commands/index.md", "configuration.md"], maxTokens: 1000 }, emptyExtra)
+		expect(result.content).toHaveLength(3)
+		const parsed = result.content.map((item) => parseFrontmatter(item.type === "text" ? item.text : ""))
+		expect(parsed.map(({ frontmatter }) => frontmatter.path)).toEqual(["configuration.md", "commands/index.md", "configuration.md"])
+		expect(parsed[0]?.frontmatter.omitted).toBe("budget")
+		expect(Number(parsed[0]?.frontmatter.estimatedTokens)).toBeGreaterThan(1000)
+		expect(parsed[0]?.body).toContain("Omitted due to token budget")
+		// A smaller document after an oversized one is still packed in
+		expect(parsed[1]?.frontmatter.omitted).toBeUndefined()
+		expect(parsed[2]?.frontmatter.omitted).toBe("budget")
+	})
+
 	it("handles multiple paths in one request", async () => {
 		const result = await docsTool.cb({ paths: ["index.md", "configuration.md"] }, emptyExtra)
 		expect(result.content).toBeDefined()
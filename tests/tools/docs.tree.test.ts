@@ -0,0 +1,98 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js"
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { createDocsTool } from "../../src/tools/docs.js"
+import { loadConfig } from "../../src/utils/config.js"
+import { createDocsProject, type DocsProject, parseFrontmatter, templatePath } from "../utils/fixtures.js"
+
+const emptyExtra = {
+	signal: new AbortController().signal
+} as RequestHandlerExtra<ServerRequest, ServerNotification>
+
+describe("docs tool tree listings", () => {
+	let project: DocsProject
+	let docsTool: Awaited<ReturnType<typeof createDocsTool>>
+
+	beforeAll(async () => {
+		const generated: Record<string, string> = {}
+		for (let index = 0; index < 250; index += 1) {
+			generated[`docs/bulk/page-${String(index).padStart(3, "0")}.md`] = `# Page ${index}\n`
+		}
+
+		project = await createDocsProject({
+			...generated,
+			"docs/index.md": "# Home\n",
+			"docs/reference/api/auth.md": "---\ntitle: Auth API\n---\n",
+			"docs/reference/api/v2/users.md": "# Users\n",
+			"docs/reference/cli.md": "# CLI\n"
+		})
+		docsTool = await createDocsTool(loadConfig({ configPath: project.configPath, templatePath }))
+	})
+
+	afterAll(async () => {
+		await project.cleanup()
+	})
+
+	async function readBody(paths: string[], depth?: number): Promise<string> {
+		const result = await docsTool.cb({ paths, depth }, emptyExtra)
+		const { body } = parseFrontmatter(result.content[0]?.type === "text" ? result.content[0].text : "")
+		// Drop the trailing suggestions, which list files regardless of depth
+		return body.split("\n---\n")[0] ?? ""
+	}
+
+	it("keeps the one-level listing by default", async () => {
+		const body = await readBody(["reference"])
+		expect(body).toContain("## Subdirectories")
+		expect(body).not.toContain("## Tree")
+	})
+
+	it("returns a nested outline with file counts down to the requested depth", async () => {
+		const body = await readBody(["reference"], 2)
+		expect(body).toContain("## Tree")
+		expect(body).toContain("- docs/reference/api/ (2 files)")
+		expect(body).toContain("  - docs/reference/api/v2/ (1 file, truncated)")
+		expect(body).toContain("  - docs/reference/api/auth.md — Auth API")
+		expect(body).not.toContain("users.md")
+
+		const deeper = await readBody(["reference"], 3)
+		expect(deeper).toContain("  - docs/reference/api/v2/ (1 file)")
+		expect(deeper).toContain("    - docs/reference/api/v2/users.md")
+	})
+
+	it("caps the total number of entries and marks truncated folders", async () => {
+		const body = await readBody(["."], 2)
+		expect(body).toContain("- docs/bulk/ (250 files, truncated)")
+		const bulkEntries = body.split("\n").filter((line) => line.startsWith("  - docs/bulk/page-"))
+		expect(bulkEntries.length).toBeLessThan(250)
+		// Breadth-first expansion still reaches folders after the large one
+		expect(body).toContain("  - docs/reference/api/")
+	})
+})
+
+describe("docs tool tree listings with many folders", () => {
+	let project: DocsProject
+	let docsTool: Awaited<ReturnType<typeof createDocsTool>>
+
+	beforeAll(async () => {
+		const generated: Record<string, string> = {}
+		for (let index = 0; index < 210; index += 1) {
+			generated[`docs/area-${String(index).padStart(3, "0")}/index.md`] = `# Area ${index}\n`
+		}
+		project = await createDocsProject(generated)
+		docsTool = await createDocsTool(loadConfig({ configPath: project.configPath, templatePath }))
+	})
+
+	afterAll(async () => {
+		await project.cleanup()
+	})
+
+	it("counts top-level folders against the entry cap", async () => {
+		const result = await docsTool.cb({ paths: ["."], depth: 2 }, emptyExtra)
+		const { frontmatter, body } = parseFrontmatter(result.content[0]?.type === "text" ? result.content[0].text : "")
+		const tree = body.split("\n---\n")[0] ?? ""
+		expect(frontmatter.truncated).toBe(true)
+		expect(tree.split("\n").filter((line) => line.startsWith("- docs/area-"))).toHaveLength(200)
+		expect(tree).not.toContain("- docs/area-200/")
+		expect(tree).toContain("- … 10 more folders (truncated)")
+	})
+})
@@ -0,0 +1,97 @@
+import { execFileSync } from "node:child_process"
+import fs from "node:fs/promises"
+import path from "node:path"
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js"
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { createDocsTool } from "../../src/tools/docs.js"
+import { createSearchTool } from "../../src/tools/search.js"
+import { loadConfig } from "../../src/utils/config.js"
+import { materializeVersionSnapshots } from "../../src/utils/snapshots.js"
+import { createDocsProject, type DocsProject, parseFrontmatter, templatePath } from "../utils/fixtures.js"
+
+const emptyExtra = {
+	signal: new AbortController().signal
+} as RequestHandlerExtra<ServerRequest, ServerNotification>
+
+describe("docs tool with versioned docs", () => {
+	let project: DocsProject
+	let docsTool: Awaited<ReturnType<typeof createDocsTool>>
+	let searchTool: Awaited<ReturnType<typeof createSearchTool>>
+
+	beforeAll(async () => {
+		project = await createDocsProject(
+			{
+				"docs/index.md": "# Home\n\nThe first release.\n",
+				"docs/callbacks.md": "# Callbacks\n\nRegister a pelican callback.\n",
+				"legacy/v2/index.md": "# Home\n\nThe second release.\n",
+				"legacy/v2/promises.md": "# Promises\n\nAwait the pelican promise.\n"
+			},
+			{ versions: [{ name: "v3" }, { name: "v2", docs: "legacy/v2" }, { name: "v1", tag: "v1.0.0" }] }
+		)
+
+		// Tag the first release, then move docs/ on to the latest one
+		const git = (...args: string[]) => execFileSync("git", ["-c", "user.name=Docs", "-c", "user.email=docs@example.com", ...args], { cwd: project.rootDir })
+		git("init", "-q")
+		git("add", "-A")
+		git("commit", "-qm", "First release")
+		git("tag", "v1.0.0")
+		await fs.rm(path.join(project.rootDir, "docs", "callbacks.md"))
+		await fs.writeFile(path.join(project.rootDir, "docs", "index.md"), "# Home\n\nThe third release.\n")
+		await fs.writeFile(path.join(project.rootDir, "docs", "streams.md"), "# Streams\n\nSubscribe to the pelican stream.\n")
+
+		const config = loadConfig({ configPath: project.configPath, templatePath })
+		await materializeVersionSnapshots(config)
+		docsTool = await createDocsTool(config)
+		searchTool = await createSearchTool(config)
+	})
+
+	afterAll(async () => {
+		await project.cleanup()
+	})
+
+	async function read(path: string, version?: string) {
+		const result = await docsTool.cb({ paths: [path], version }, emptyExtra)
+		return parseFrontmatter(result.content[0]?.type === "text" ? result.content[0].text : "")
+	}
+
+	it("reads the latest version by default", async () => {
+		expect((await read("index.md")).body).toContain("The third release.")
+		expect((await read("index.md", "v3")).body).toContain("The third release.")
+	})
+
+	it("reads directory and git tag versions", async () => {
+		expect((await read("index.md", "v2")).body).toContain("The second release.")
+		expect((await read("callbacks.md", "v1")).body).toContain("Register a pelican callback.")
+	})
+
+	it("scopes listings to the requested version", async () => {
+		const listing = await read(".", "v2")
+		expect(listing.body).toContain("promises.md")
+		expect(listing.body).not.toContain("streams.md")
+	})
+
+	it("hints at other versions when a page is missing", async () => {
+		const result = await docsTool.cb({ paths: ["callbacks.md"] }, emptyExtra)
+		const { frontmatter } = parseFrontmatter(result.content[0]?.type === "text" ? result.content[0].text : "")
+		expect(frontmatter.error).toContain('in version "v3"')
+		expect(frontmatter.error).toContain('"v1"')
+		expect(result.structuredContent?.results).toMatchObject([{ type: "error", otherVersions: ["v1"] }])
+	})
+
+	it("scopes search to the requested version", async () => {
+		const search = async (version?: string) => {
+			const result = await searchTool.cb({ query: "pelican", version }, emptyExtra)
+			return result.content.map((item) => (item.type === "text" ? parseFrontmatter(item.text).frontmatter.path : undefined))
+		}
+		expect(await search()).toEqual(["streams.md"])
+		expect(await search("v2")).toEqual(["promises.md"])
+		expect(await search("v1")).toEqual(["callbacks.md"])
+	})
+
+	it("offers the declared versions as an enum", () => {
+		const version = docsTool.config.inputSchema.shape.version
+		expect(version?.safeParse("v2").success).toBe(true)
+		expect(version?.safeParse("v4").success).toBe(false)
+	})
+})
@@ -0,0 +1,72 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js"
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { createExamplesTool } from "../../src/tools/examples.js"
+import { loadConfig } from "../../src/utils/config.js"
+import { createDocsProject, type DocsProject, parseFrontmatter, templatePath } from "../utils/fixtures.js"
+
+const emptyExtra = {
+	signal: new AbortController().signal
+} as RequestHandlerExtra<ServerRequest, ServerNotification>
+
+describe("code examples tool", () => {
+	let project: DocsProject
+	let examplesTool: Awaited<ReturnType<typeof createExamplesTool>>
+
+	beforeAll(async () => {
+		project = await createDocsProject({
+			"docs/guides/install.md": "---\ntitle: Install\n---\n# Install\n\nSet up the heron client.\n\n## npm\n\n```bash\nnpm install heron\n```\n\n## Usage\n\n```ts\nimport { heron } from \"heron\"\n```\n\n```json\n{ \"heron\": true }\n```\n",
+			"docs/guides/prose.md": "# Prose\n\nNo code here.\n",
+			"docs/reference/api.md": "# API\n\nThe heron API.\n\n```ts\nheron.fly()\n```\n"
+		})
+		const config = loadConfig({ configPath: project.configPath, templatePath })
+		examplesTool = await createExamplesTool(config)
+	})
+
+	afterAll(async () => {
+		await project.cleanup()
+	})
+
+	async function examples(args: Parameters<typeof examplesTool.cb>[0]) {
+		const result = await examplesTool.cb(args, emptyExtra)
+		return result.content.map((item) => parseFrontmatter(item.type === "text" ? item.text : ""))
+	}
+
+	it("exposes a generated tool name", () => {
+		expect(examplesTool.name).toMatch(/^search.+Examples$/)
+	})
+
+	it("returns each code block with its heading and line", async () => {
+		const blocks = await examples({ paths: ["guides/install.md"] })
+		expect(blocks.map(({ frontmatter }) => frontmatter)).toEqual([
+			{ path: "guides/install.md", language: "bash", heading: "npm", anchor: "guides/install.md#npm", line: 7 },
+			{ path: "guides/install.md", language: "ts", heading: "Usage", anchor: "guides/install.md#usage", line: 13 },
+			{ path: "guides/install.md", language: "json", heading: "Usage", anchor: "guides/install.md#usage", line: 17 }
+		])
+		expect(blocks[0]?.body).toBe("```bash\nnpm install heron\n```")
+	})
+
+	it("filters blocks by language tag", async () => {
+		const blocks = await examples({ paths: ["guides", "reference"], languages: ["TS"] })
+		expect(blocks.map(({ frontmatter }) => frontmatter.path)).toEqual(["guides/install.md", "reference/api.md"])
+		expect(blocks.map(({ frontmatter }) => frontmatter.language)).toEqual(["ts", "ts"])
+	})
+
+	it("limits anchored paths to one section", async () => {
+		const blocks = await examples({ paths: ["guides/install.md#npm"] })
+		expect(blocks.map(({ frontmatter }) => frontmatter.line)).toEqual([7])
+	})
+
+	it("takes pages from search results", async () => {
+		const blocks = await examples({ query: "heron api", limit: 1 })
+		expect(blocks).toHaveLength(1)
+		expect(blocks[0]?.frontmatter.path).toBe("reference/api.md")
+	})
+
+	it("rejects path traversal and reports missing paths", async () => {
+		const blocks = await examples({ paths: ["../mcp-docs-server.json", "missing.md"] })
+		expect(blocks[0]?.frontmatter).toEqual({ path: "../mcp-docs-server.json", error: "Invalid path" })
+		expect(blocks[1]?.frontmatter.error).toBe('Path "missing.md" not found.')
+		expect(blocks[2]?.frontmatter.results).toBe(0)
+	})
+})
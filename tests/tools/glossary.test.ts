@@ -0,0 +1,133 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js"
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { createGlossaryTool } from "../../src/tools/glossary.js"
+import { loadConfig } from "../../src/utils/config.js"
+import { createDocsProject, type DocsProject, parseFrontmatter, templatePath } from "../utils/fixtures.js"
+
+const emptyExtra = {
+	signal: new AbortController().signal
+} as RequestHandlerExtra<ServerRequest, ServerNotification>
+
+type GlossaryTool = Awaited<ReturnType<typeof createGlossaryTool>>
+
+async function define(tool: GlossaryTool, args: Parameters<GlossaryTool["cb"]>[0]) {
+	const result = await tool.cb(args, emptyExtra)
+	return result.content.map((item) => parseFrontmatter(item.type === "text" ? item.text : ""))
+}
+
+describe("glossary tool with a terms file", () => {
+	let project: DocsProject
+	let glossaryTool: GlossaryTool
+
+	beforeAll(async () => {
+		project = await createDocsProject({
+			"glossary.yml": "terms:\n  Shard: A horizontal partition of tenant data.\n  Warm standby:\n    definition: A replica kept in sync, ready to take over.\n    aliases: [hot spare]\n",
+			"docs/sharding.md": "# Sharding\n\nEach shard holds one tenant. Rebalance a shard when it grows, and split the shard in two.\n",
+			"docs/scaling.md": "# Scaling\n\nAdd a shard to scale writes.\n",
+			"docs/failover.md": "# Failover\n\nPromote the hot spare when the primary fails.\n"
+		})
+		glossaryTool = await createGlossaryTool(loadConfig({ configPath: project.configPath, templatePath }))
+	})
+
+	afterAll(async () => {
+		await project.cleanup()
+	})
+
+	it("exposes a generated tool name", () => {
+		expect(glossaryTool.name).toMatch(/^define.+Term$/)
+	})
+
+	it("names the tool in the docs tool description only when a glossary exists", async () => {
+		expect(loadConfig({ configPath: project.configPath, templatePath }).description).toContain(`call \`${glossaryTool.name}\` for its definition`)
+
+		const withoutGlossary = await createDocsProject({ "docs/index.md": "# Home\n" })
+		try {
+			const description = loadConfig({ configPath: withoutGlossary.configPath, templatePath }).description
+			expect(description).not.toMatch(/GLOSSARY|Term`/)
+			expect(description).toMatch(/changed since a date or version\.\n?$/)
+		} finally {
+			await withoutGlossary.cleanup()
+		}
+	})
+
+	it("returns an exact match with the pages using the term most", async () => {
+		const [definition, ...pages] = await define(glossaryTool, { term: "shards" })
+		expect(definition.frontmatter).toMatchObject({ term: "Shard", match: "exact", source: "glossary.yml" })
+		expect(definition.body).toBe("A horizontal partition of tenant data.")
+		expect(pages.map((page) => page.frontmatter.path)).toEqual(["sharding.md", "scaling.md"])
+		expect(pages[0].frontmatter).toMatchObject({ term: "Shard", rank: 1 })
+	})
+
+	it("matches aliases and searches for them too", async () => {
+		const [definition, ...pages] = await define(glossaryTool, { term: "Hot Spare" })
+		expect(definition.frontmatter).toMatchObject({ term: "Warm standby", aliases: ["hot spare"], match: "exact" })
+		expect(pages.map((page) => page.frontmatter.path)).toEqual(["failover.md"])
+	})
+
+	it("falls back to fuzzy matches for misspelled terms", async () => {
+		const [definition] = await define(glossaryTool, { term: "warm standbye" })
+		expect(definition.frontmatter).toMatchObject({ term: "Warm standby", match: "fuzzy" })
+	})
+
+	it("says when no term matches", async () => {
+		const [result] = await define(glossaryTool, { term: "kubernetes" })
+		expect(result.frontmatter).toMatchObject({ term: "kubernetes", results: 0 })
+	})
+})
+
+describe("glossary tool with definition lists", () => {
+	let project: DocsProject
+	let glossaryTool: GlossaryTool
+
+	beforeAll(async () => {
+		project = await createDocsProject(
+			{
+				"docs/reference/glossary.md": "---\ntitle: Glossary\n---\n# Glossary\n\nTenant\n: One customer account and its data.\n",
+				"docs/accounts.md": "# Accounts\n\nEvery tenant has an owner.\n"
+			},
+			{ glossary: "docs/reference" }
+		)
+		glossaryTool = await createGlossaryTool(loadConfig({ configPath: project.configPath, templatePath }))
+	})
+
+	afterAll(async () => {
+		await project.cleanup()
+	})
+
+	it("reads definitions from Markdown and leaves the glossary out of the pages", async () => {
+		const [definition, ...pages] = await define(glossaryTool, { term: "tenant" })
+		expect(definition.frontmatter).toMatchObject({ term: "Tenant", source: "reference/glossary.md", line: 3 })
+		expect(definition.body).toBe("One customer account and its data.")
+		expect(pages.map((page) => page.frontmatter.path)).toEqual(["accounts.md"])
+	})
+})
+
+describe("glossary tool with localized docs", () => {
+	let project: DocsProject
+	let glossaryTool: GlossaryTool
+
+	beforeAll(async () => {
+		project = await createDocsProject(
+			{
+				"docs/en/reference/glossary.md": "# Glossary\n\nTenant\n: One customer account and its data.\n",
+				"docs/en/accounts.md": "# Accounts\n\nEvery tenant has an owner.\n",
+				"docs/fr/reference/glossary.md": "# Glossaire\n\nTenant\n: Un compte client et ses données.\n",
+				"docs/fr/accounts.md": "---\ntitle: Comptes\n---\n# Comptes\n\nChaque tenant a un propriétaire.\n"
+			},
+			{ locales: ["en", "fr"], defaultLocale: "en", glossary: "docs/en/reference" }
+		)
+		glossaryTool = await createGlossaryTool(loadConfig({ configPath: project.configPath, templatePath }))
+	})
+
+	afterAll(async () => {
+		await project.cleanup()
+	})
+
+	it("shows the source as a doc path and leaves the translated glossary out of the pages", async () => {
+		const [definition, ...pages] = await define(glossaryTool, { term: "tenant", locale: "fr" })
+		expect(definition.frontmatter).toMatchObject({ term: "Tenant", source: "reference/glossary.md" })
+		expect(pages.map((page) => page.frontmatter.path)).toEqual(["accounts.md"])
+		expect(pages[0].frontmatter.title).toBe("Comptes")
+	})
+})
@@ -0,0 +1,59 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js"
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { createSearchTool } from "../../src/tools/search.js"
+import { loadConfig } from "../../src/utils/config.js"
+import { createDocsProject, type DocsProject, parseFrontmatter, templatePath } from "../utils/fixtures.js"
+
+const emptyExtra = {
+	signal: new AbortController().signal
+} as RequestHandlerExtra<ServerRequest, ServerNotification>
+
+const files = {
+	"docs/deploys.md": "# Deploys\n\nEach deploy ships a release. A failed deploy can be reverted to the previous release.\n",
+	"docs/history.md": "# History\n\nUndo a change to revert it. Undo restores the previous version.\n",
+	"docs/cli.md": "# CLI\n\nRun the deploy command to ship a release. Use undo to revert the last deploy.\n",
+	"docs/rollback.md": "# Rollback\n\nRevert production to the previous release.\n",
+	"docs/billing.md": "# Billing\n\nInvoices are sent monthly. Update the payment card in billing settings.\n",
+	"docs/teams.md": "# Teams\n\nInvite members and manage team roles and billing settings.\n",
+	"docs/tokens.md": "# Tokens\n\nCreate API tokens for team members and rotate tokens regularly.\n"
+}
+
+async function searchPaths(searchTool: Awaited<ReturnType<typeof createSearchTool>>, query: string) {
+	const result = await searchTool.cb({ query }, emptyExtra)
+	return result.content.map((item) => (item.type === "text" ? parseFrontmatter(item.text) : undefined))
+}
+
+describe("search with hybrid ranking", () => {
+	let project: DocsProject
+	let keywordProject: DocsProject
+	let searchTool: Awaited<ReturnType<typeof createSearchTool>>
+	let keywordSearchTool: Awaited<ReturnType<typeof createSearchTool>>
+
+	beforeAll(async () => {
+		project = await createDocsProject(files, { ranking: "hybrid" })
+		keywordProject = await createDocsProject(files)
+		searchTool = await createSearchTool(loadConfig({ configPath: project.configPath, templatePath }))
+		keywordSearchTool = await createSearchTool(loadConfig({ configPath: keywordProject.configPath, templatePath }))
+	})
+
+	afterAll(async () => {
+		await project.cleanup()
+		await keywordProject.cleanup()
+	})
+
+	it("finds paraphrased pages that keyword search misses", async () => {
+		const keywordHits = await searchPaths(keywordSearchTool, "how do I undo a deploy")
+		expect(keywordHits.map((hit) => hit?.frontmatter.path)).not.toContain("rollback.md")
+
+		const hits = await searchPaths(searchTool, "how do I undo a deploy")
+		const rollback = hits.find((hit) => hit?.frontmatter.path === "rollback.md")
+		expect(rollback?.body).toContain("Revert production to the previous release.")
+		expect(hits.map((hit) => hit?.frontmatter.path)).not.toContain("billing.md")
+	})
+
+	it("keeps pages matching the query words ahead", async () => {
+		const hits = await searchPaths(searchTool, "undo deploy")
+		expect(hits[0]?.frontmatter.path).toBe("cli.md")
+	})
+})
@@ -0,0 +1,63 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js"
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { createDocsTool } from "../../src/tools/docs.js"
+import { createSearchTool } from "../../src/tools/search.js"
+import { loadConfig } from "../../src/utils/config.js"
+import { createDocsProject, type DocsProject, parseFrontmatter, templatePath } from "../utils/fixtures.js"
+
+const emptyExtra = {
+	signal: new AbortController().signal
+} as RequestHandlerExtra<ServerRequest, ServerNotification>
+
+describe("search with a synonyms file", () => {
+	let project: DocsProject
+	let docsTool: Awaited<ReturnType<typeof createDocsTool>>
+	let searchTool: Awaited<ReturnType<typeof createSearchTool>>
+
+	beforeAll(async () => {
+		project = await createDocsProject({
+			"synonyms.json": JSON.stringify({ synonyms: { login: ["authentication", "sign in"], k8s: "kubernetes" } }),
+			"docs/guides/authentication.md": "# Authentication\n\nConfigure OAuth tokens.\n",
+			"docs/guides/accounts.md": "# Accounts\n\nSign in with your team account.\n",
+			"docs/misc/roads.md": "# Road sign\n\nA sign by the road.\n",
+			"docs/misc/boxes.md": "# Boxes\n\nWhat is in the box.\n",
+			"docs/ops/cluster.md": "# Cluster\n\nDeploy to Kubernetes.\n"
+		})
+		const config = loadConfig({ configPath: project.configPath, templatePath })
+		docsTool = await createDocsTool(config)
+		searchTool = await createSearchTool(config)
+	})
+
+	afterAll(async () => {
+		await project.cleanup()
+	})
+
+	it("finds pages through synonyms of the query terms", async () => {
+		const result = await searchTool.cb({ query: "k8s" }, emptyExtra)
+		const hits = result.content.map((item) => (item.type === "text" ? parseFrontmatter(item.text) : undefined))
+		expect(hits.map((hit) => hit?.frontmatter.path)).toEqual(["ops/cluster.md"])
+		expect(hits[0]?.body).toContain("**Kubernetes**")
+	})
+
+	it("matches multi-word synonyms only as phrases, never on stop words", async () => {
+		const result = await searchTool.cb({ query: "login" }, emptyExtra)
+		const paths = result.content.map((item) => (item.type === "text" ? parseFrontmatter(item.text).frontmatter.path : undefined))
+		expect(paths.sort()).toEqual(["guides/accounts.md", "guides/authentication.md"])
+	})
+
+	it("suggests pages through synonyms when a path is missing", async () => {
+		const result = await docsTool.cb({ paths: ["login.md"] }, emptyExtra)
+		const text = result.content[0]?.type === "text" ? result.content[0].text : ""
+		expect(text).toContain("- guides/authentication.md")
+	})
+
+	it("rejects malformed synonyms files", async () => {
+		const broken = await createDocsProject({ "synonyms.yaml": "synonyms: [login]\n" })
+		try {
+			expect(() => loadConfig({ configPath: broken.configPath, templatePath })).toThrow(/Invalid synonyms file/)
+		} finally {
+			await broken.cleanup()
+		}
+	})
+})
@@ -0,0 +1,62 @@
+import path from "node:path"
+import { fileURLToPath } from "node:url"
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js"
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js"
+import { toVFile } from "to-vfile"
+import { matter } from "vfile-matter"
+import { beforeAll, describe, expect, it } from "vitest"
+import { createSearchTool } from "../../src/tools/search.js"
+import { loadConfig } from "../../src/utils/config.js"
+
+function parseFrontmatter(text: string): { frontmatter: Record<string, unknown>; body: string } {
+	const file = toVFile({ value: text, path: "test.md" })
+	matter(file, { strip: true })
+	return {
+		frontmatter: (file.data.matter as Record<string, unknown>) || {},
+		body: String(file.value).trim()
+	}
+}
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url))
+const repoRoot = path.resolve(__dirname, "..", "..")
+const configPath = path.join(repoRoot, "mcp-docs-server.json")
+const templatePath = path.join(repoRoot, "templates", "docs.mdx")
+
+describe("full-text search tool", () => {
+	let searchTool: Awaited<ReturnType<typeof createSearchTool>>
+
+	const emptyExtra = {
+		signal: new AbortController().signal
+	} as RequestHandlerExtra<ServerRequest, ServerNotification>
+
+	beforeAll(async () => {
+		const config = loadConfig({ configPath, templatePath })
+		searchTool = await createSearchTool(config)
+	})
+
+	it("exposes a generated tool name", () => {
+		expect(searchTool.name).toBe("searchMcpDocsServerDocs")
+	})
+
+	it("returns ranked hits with highlighted snippets", async () => {
+		const result = await searchTool.cb({ query: "wrangler worker", limit: 3 }, emptyExtra)
+		expect(result.content.length).toBeGreaterThan(0)
+		expect(result.content.length).toBeLessThanOrEqual(3)
+
+		const parsed = result.content.map((item) => parseFrontmatter(item.type === "text" ? item.text : ""))
+		expect(parsed[0]?.frontmatter.path).toBe("commands/cloudflare.md")
+		expect(parsed[0]?.frontmatter.rank).toBe(1)
+		expect(parsed[0]?.body).toMatch(/\*\*(wrangler|worker)\*\*/i)
+
+		const scores = parsed.map(({ frontmatter }) => Number(frontmatter.score))
+		expect(scores).toEqual([...scores].sort((a, b) => b - a))
+	})
+
+	it("reports when nothing matches", async () => {
+		const result = await searchTool.cb({ query: "zzqxnonexistent" }, emptyExtra)
+		expect(result.content).toHaveLength(1)
+		const { frontmatter, body } = parseFrontmatter(result.content[0]?.type === "text" ? result.content[0].text : "")
+		expect(frontmatter.results).toBe(0)
+		expect(body).toContain("No documents matched")
+	})
+})
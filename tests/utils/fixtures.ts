@@ -0,0 +1,46 @@
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+import { fileURLToPath } from "node:url"
+import { toVFile } from "to-vfile"
+import { matter } from "vfile-matter"
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url))
+
+export const templatePath = path.resolve(__dirname, "..", "..", "templates", "docs.mdx")
+
+export interface DocsProject {
+	rootDir: string
+	configPath: string
+	cleanup: () => Promise<void>
+}
+
+// Creates a throwaway project with mcp-docs-server.json and the given files (paths relative to the project root)
+export async function createDocsProject(files: Record<string, string>, config: Record<string, unknown> = {}): Promise<DocsProject> {
+	const rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "mcp-docs-server-fixture-"))
+	const configPath = path.join(rootDir, "mcp-docs-server.json")
+
+	await fs.mkdir(path.join(rootDir, "docs"), { recursive: true })
+	await fs.writeFile(configPath, JSON.stringify({ name: "Fixture", package: "@acme/fixture-docs", version: "1.0.0", ...config }))
+
+	for (const [relativePath, content] of Object.entries(files)) {
+		const target = path.join(rootDir, relativePath)
+		await fs.mkdir(path.dirname(target), { recursive: true })
+		await fs.writeFile(target, content)
+	}
+
+	return {
+		rootDir,
+		configPath,
+		cleanup: () => fs.rm(rootDir, { recursive: true, force: true })
+	}
+}
+
+export function parseFrontmatter(text: string): { frontmatter: Record<string, unknown>; body: string } {
+	const file = toVFile({ value: text, path: "test.md" })
+	matter(file, { strip: true })
+	return {
+		frontmatter: (file.data.matter as Record<string, unknown>) || {},
+		body: String(file.value).trim()
+	}
+}
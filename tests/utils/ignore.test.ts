@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest"
+import { createIgnoreMatcher } from "../../src/utils/ignore.js"
+
+describe("ignore matcher", () => {
+	it("matches unanchored names at any depth and anchored paths from the root", () => {
+		const isIgnored = createIgnoreMatcher(["# internal notes", "", "README.md", "/notes.md", "guides/*.draft.md"])
+		expect(isIgnored("README.md", false)).toBe(true)
+		expect(isIgnored("guides/README.md", false)).toBe(true)
+		expect(isIgnored("notes.md", false)).toBe(true)
+		expect(isIgnored("guides/notes.md", false)).toBe(false)
+		expect(isIgnored("guides/auth.draft.md", false)).toBe(true)
+		expect(isIgnored("guides/nested/auth.draft.md", false)).toBe(false)
+	})
+
+	it("applies directory-only patterns to everything inside the directory", () => {
+		const isIgnored = createIgnoreMatcher(["_drafts/", "!_drafts/keep.md"])
+		expect(isIgnored("_drafts", true)).toBe(true)
+		expect(isIgnored("guides/_drafts/a.md", false)).toBe(true)
+		// Files inside an ignored directory cannot be re-included, as in git
+		expect(isIgnored("_drafts/keep.md", false)).toBe(true)
+		expect(isIgnored("_drafts.md", false)).toBe(false)
+	})
+
+	it("supports double-star globs, character classes and negation", () => {
+		const isIgnored = createIgnoreMatcher(["internal/**", "**/tmp-[0-9].md", "*.md", "!index.md", "!guides/**/*.md"])
+		expect(isIgnored("internal/a/b.md", false)).toBe(true)
+		expect(isIgnored("internal", true)).toBe(false)
+		expect(isIgnored("a/b/tmp-3.md", false)).toBe(true)
+		expect(isIgnored("index.md", false)).toBe(false)
+		expect(isIgnored("other.md", false)).toBe(true)
+		expect(isIgnored("guides/deep/page.md", false)).toBe(false)
+	})
+})
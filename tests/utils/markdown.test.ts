@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest"
+import { extractCodeBlocks, extractDefinitions, extractHeadings, extractOutline, extractSection, renderMdxToMarkdown, slugify, splitFrontmatter } from "../../src/utils/markdown.js"
+
+describe("markdown helpers", () => {
+	it("generates GitHub-compatible slugs", () => {
+		expect(slugify("The `cloudflare` Command")).toBe("the-cloudflare-command")
+		expect(slugify("What's new in v2.0?")).toBe("whats-new-in-v20")
+		expect(slugify("[Linked](./a.md) heading_name")).toBe("linked-heading_name")
+		expect(slugify("設定 ガイド")).toBe("設定-ガイド")
+	})
+
+	it("deduplicates repeated heading slugs like GitHub", () => {
+		const headings = extractHeadings("# Example\n## Example\n## Example-1\n## Example\n")
+		expect(headings.map((heading) => heading.slug)).toEqual(["example", "example-1", "example-1-1", "example-2"])
+	})
+
+	it("extracts a section including its nested subsections", () => {
+		const content = "# Guide\n\n## Install\n\nRun it.\n\n### Windows\n\nUse WSL.\n\n## Usage\n\nCall it.\n"
+		const section = extractSection(content, "install")
+		expect(section?.heading.text).toBe("Install")
+		expect(section?.content).toBe("## Install\n\nRun it.\n\n### Windows\n\nUse WSL.")
+		expect(extractSection(content, "missing")).toBeNull()
+	})
+
+	it("builds an outline with section sizes", () => {
+		const outline = extractOutline("# Guide\n\n## Install\n\nRun it.\n\n### Windows\n\nUse WSL.\n\n## Usage\n\nCall it.\n")
+		expect(outline.map(({ level, slug, line, lines }) => ({ level, slug, line, lines }))).toEqual([
+			{ level: 1, slug: "guide", line: 1, lines: 13 },
+			{ level: 2, slug: "install", line: 3, lines: 7 },
+			{ level: 3, slug: "windows", line: 7, lines: 3 },
+			{ level: 2, slug: "usage", line: 11, lines: 3 }
+		])
+		expect(outline[2]?.characters).toBe("### Windows\n\nUse WSL.".length)
+	})
+
+	it("extracts fenced code blocks with their language and closest heading", () => {
+		const content = "Intro\n\n```\nplain\n```\n\n## Install\n\n~~~Bash title=setup\nnpm i\n```\n~~~\n\n## Usage\n\n````ts\nrun()\n"
+		expect(extractCodeBlocks(content).map(({ language, code, line, heading }) => ({ language, code, line, heading: heading?.slug }))).toEqual([
+			{ language: undefined, code: "plain", line: 3, heading: undefined },
+			{ language: "bash", code: "npm i\n```", line: 9, heading: "install" },
+			{ language: "ts", code: "run()\n", line: 16, heading: "usage" }
+		])
+	})
+
+	it("extracts definition lists outside code blocks", () => {
+		const content = [
+			"# Terms",
+			"",
+			"**Shard**",
+			": A horizontal partition",
+			"  of tenant data.",
+			"",
+			"Warm standby",
+			"",
+			": A replica kept in sync.",
+			": Also called a hot spare.",
+			"",
+			"```md",
+			"Fenced",
+			": not a definition",
+			"```"
+		].join("\n")
+
+		expect(extractDefinitions(content)).toEqual([
+			{ term: "Shard", definition: "A horizontal partition of tenant data.", line: 3 },
+			{ term: "Warm standby", definition: "A replica kept in sync.\n\nAlso called a hot spare.", line: 7 }
+		])
+	})
+
+	it("splits YAML frontmatter from the body", () => {
+		const { data, body, lineOffset } = splitFrontmatter("---\ntitle: Hello\n---\n# Body\n")
+		expect(data).toEqual({ title: "Hello" })
+		expect(body).toBe("# Body\n")
+		expect(lineOffset).toBe(3)
+	})
+
+	it("renders MDX as plain Markdown", () => {
+		const mdx = [
+			'import { Callout } from "./components"',
+			"export const meta = { draft: false }",
+			"",
+			"# Setup {props.name}",
+			"",
+			'<Callout type="warn">',
+			"  Be **careful** here.",
+			"",
+			"  - first",
+			"    - nested",
+			"</Callout>",
+			"",
+			"Text with <Badge>inline</Badge> markup.{/* note */}",
+			"",
+			"<Divider />",
+			""
+		].join("\n")
+
+		expect(renderMdxToMarkdown(mdx)).toBe("# Setup \n\nBe **careful** here.\n\n- first\n  - nested\n\nText with inline markup.\n")
+	})
+})
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest"
+import { paginateContent } from "../../src/utils/index.js"
+
+const content = ["line 1", "line 2", "line 3", "line 4", "line 5"].join("\n")
+
+describe("paginateContent", () => {
+	it("returns the whole document when no options are given", () => {
+		const page = paginateContent(content)
+		expect(page.content).toBe(content)
+		expect(page.totalLines).toBe(5)
+		expect(page.nextOffset).toBeUndefined()
+	})
+
+	it("slices by lines and reports a cursor", () => {
+		const page = paginateContent(content, { offset: 1, limit: 2 })
+		expect(page.content).toBe("line 2\nline 3")
+		expect(page).toMatchObject({ unit: "lines", start: 1, end: 3, nextOffset: 3 })
+	})
+
+	it("slices by characters", () => {
+		const page = paginateContent(content, { offset: 7, limit: 6, unit: "characters" })
+		expect(page.content).toBe("line 2")
+		expect(page).toMatchObject({ unit: "characters", start: 7, end: 13, nextOffset: 13, totalCharacters: content.length })
+	})
+
+	it("keeps whole lines under the size cap", () => {
+		const page = paginateContent(content, { maxSize: 15 })
+		expect(page.content).toBe("line 1\nline 2")
+		expect(page.nextOffset).toBe(2)
+	})
+
+	it("cuts a single line longer than the cap by characters and resumes inside it", () => {
+		const line = "x".repeat(5000)
+		const page = paginateContent(`short\n${line}\nend`, { offset: 1, maxSize: 100 })
+		expect(page.content).toBe("x".repeat(100))
+		expect(page).toMatchObject({ unit: "characters", start: 6, end: 106, nextOffset: 106 })
+
+		const next = paginateContent(`short\n${line}\nend`, { offset: page.nextOffset, unit: "characters", maxSize: 100 })
+		expect(next.content).toBe("x".repeat(100))
+		expect(next.nextOffset).toBe(206)
+	})
+
+	it("returns an empty page when the offset is past the end", () => {
+		const page = paginateContent(content, { offset: 10 })
+		expect(page.content).toBe("")
+		expect(page).toMatchObject({ start: 5, end: 5, nextOffset: undefined })
+	})
+})
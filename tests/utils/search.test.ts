@@ -0,0 +1,135 @@
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+import { describe, expect, it } from "vitest"
+import { getMatchingPaths, normalizeKeywords, searchDocumentContent } from "../../src/utils/index.js"
+import { buildSearchIndex, createSnippet, querySearchIndex, tokenize } from "../../src/utils/search.js"
+import { parseSynonyms } from "../../src/utils/synonyms.js"
+
+describe("search index", () => {
+	it("tokenizes on punctuation and camelCase boundaries", () => {
+		expect(tokenize("getting-started/apiKeys.md")).toEqual(["getting", "started", "api", "keys", "md"])
+	})
+
+	it("splits Chinese, Japanese, and Korean text into bigrams", () => {
+		expect(tokenize("認証の設定")).toEqual(["認証", "証の", "の設", "設定"])
+		expect(tokenize("API키 인증")).toEqual(["api", "키", "인증"])
+		expect(normalizeKeywords(["トークン 설정"])).toEqual(["トー", "ーク", "クン", "설정"])
+	})
+
+	it("finds and highlights CJK terms inside unsegmented sentences", () => {
+		const index = buildSearchIndex([
+			{ path: "auth.md", content: "# 認証\n\nOAuthトークンを設定します。\n" },
+			{ path: "other.md", content: "# その他\n\n説明です。\n" }
+		])
+
+		const hits = querySearchIndex(index, ["トークン"])
+		expect(hits.map((hit) => hit.path)).toEqual(["auth.md"])
+		expect(createSnippet(index.documents[0]?.content ?? "", hits[0]?.matchedTerms ?? [])).toBe("OAuth**トークン**を設定します。")
+	})
+
+	it("matches other forms of a word through stemming", () => {
+		const index = buildSearchIndex([
+			{ path: "setup.md", content: "# Setup\n\nConfigure the client before use.\n" },
+			{ path: "faq.md", content: "Unrelated content.\n" }
+		])
+
+		const hits = querySearchIndex(index, ["configuring"])
+		expect(hits.map((hit) => hit.path)).toEqual(["setup.md"])
+		expect(createSnippet(index.documents[0]?.content ?? "", hits[0]?.matchedTerms ?? [])).toBe("**Configure** the client before use.")
+	})
+
+	it("drops stop words from queries unless configured otherwise", () => {
+		const index = buildSearchIndex([
+			{ path: "a.md", content: "The client is ready.\n" },
+			{ path: "b.md", content: "The server is ready.\n" }
+		])
+
+		expect(querySearchIndex(index, ["the", "server"]).map((hit) => hit.path)).toEqual(["b.md"])
+		expect(querySearchIndex(index, ["the"])).toEqual([])
+		expect(querySearchIndex(index, ["the"], 10, { stopWords: new Set() }).map((hit) => hit.path)).toEqual(["a.md", "b.md"])
+	})
+
+	it("matches quoted phrases only where their words are adjacent", () => {
+		const index = buildSearchIndex([
+			{ path: "limits.md", content: "Requests over the rate limit are rejected.\n" },
+			{ path: "billing.md", content: "The flat rate has no usage limit.\n" }
+		])
+
+		expect(normalizeKeywords(['"Rate Limit" errors'])).toEqual(['"rate limit"', "errors"])
+		expect(querySearchIndex(index, normalizeKeywords(['"rate limit"'])).map((hit) => hit.path)).toEqual(["limits.md"])
+		expect(querySearchIndex(index, ["rate", "limit"]).map((hit) => hit.path)).toEqual(expect.arrayContaining(["limits.md", "billing.md"]))
+		expect(querySearchIndex(index, ['"rate limits"']).map((hit) => hit.path)).toEqual(["limits.md"])
+	})
+
+	it("ranks frontmatter titles and headings above body mentions", () => {
+		const index = buildSearchIndex([
+			{ path: "misc/notes.md", content: "Some notes that mention authentication once.\n" },
+			{ path: "guides/setup.md", content: "# Setup\n\n## Authentication\n\nConfigure it here.\n" },
+			{ path: "guides/oauth.md", content: "---\ntitle: Authentication\n---\n\nHow to configure OAuth.\n" }
+		])
+
+		const hits = querySearchIndex(index, ["authentication"])
+		expect(hits.map((hit) => hit.path)).toEqual(["guides/oauth.md", "guides/setup.md", "misc/notes.md"])
+		expect(hits[0]?.title).toBe("Authentication")
+	})
+
+	it("weights path matches and rewards documents matching more terms", () => {
+		const index = buildSearchIndex([
+			{ path: "deploy/rollback.md", content: "Reverting a release.\n" },
+			{ path: "deploy/overview.md", content: "Deploying a release, including rollback.\n" },
+			{ path: "faq.md", content: "Unrelated content.\n" }
+		])
+
+		const hits = querySearchIndex(index, ["rollback", "release"])
+		expect(hits.map((hit) => hit.path)).toEqual(["deploy/rollback.md", "deploy/overview.md"])
+		expect(hits[0]?.matchedTerms).toEqual(expect.arrayContaining(["rollback", "release"]))
+	})
+
+	it("expands synonyms with a lower weight than exact terms", () => {
+		const index = buildSearchIndex([
+			{ path: "guides/authentication.md", content: "# Authentication\n\nConfigure OAuth.\n" },
+			{ path: "guides/login.md", content: "# Login\n\nThe login page.\n" },
+			{ path: "ops/cluster.md", content: "# Cluster\n\nRun on Kubernetes.\n" }
+		])
+		const synonyms = parseSynonyms("weight: 0.3\nsynonyms:\n  login: [authentication, sign in]\n  k8s: kubernetes\n", "synonyms.yaml")
+
+		expect(querySearchIndex(index, ["login"]).map((hit) => hit.path)).toEqual(["guides/login.md"])
+		expect(querySearchIndex(index, ["login"], 10, { synonyms }).map((hit) => hit.path)).toEqual(["guides/login.md", "guides/authentication.md"])
+		expect(querySearchIndex(index, ["authentication"], 10, { synonyms }).map((hit) => hit.path)).toEqual(["guides/authentication.md", "guides/login.md"])
+		expect(querySearchIndex(index, ["k8s"], 10, { synonyms })[0]?.matchedTerms).toEqual(["kubernetes"])
+	})
+
+	it("boosts pages for their frontmatter aliases", () => {
+		const index = buildSearchIndex([
+			{ path: "guides/sso.md", content: "---\naliases: [login, sign-in]\n---\n\n# Single sign-on\n" },
+			{ path: "misc/notes.md", content: "Mentions login once.\n" }
+		])
+
+		expect(querySearchIndex(index, ["login"])[0]?.path).toBe("guides/sso.md")
+	})
+
+	it("ignores headings inside fenced code blocks", () => {
+		const index = buildSearchIndex([
+			{ path: "a.md", content: "```sh\n# webhook\n```\n" },
+			{ path: "b.md", content: "# Webhook\n" }
+		])
+
+		expect(querySearchIndex(index, ["webhook"])[0]?.path).toBe("b.md")
+	})
+
+	it("builds an index from a doc directory and backs path suggestions", async () => {
+		const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "mcp-docs-server-search-"))
+		try {
+			await fs.mkdir(path.join(tempDir, "guides"), { recursive: true })
+			await fs.writeFile(path.join(tempDir, "guides", "auth.md"), "# Authentication\n\nConfigure OAuth tokens.\n")
+			await fs.writeFile(path.join(tempDir, "index.md"), "# Welcome\n")
+
+			expect(await searchDocumentContent(["oauth"], tempDir)).toEqual(["guides/auth.md"])
+			expect(await getMatchingPaths("missing.md", ["authentication"], [{ absolutePath: tempDir }])).toContain("- guides/auth.md")
+			expect(await getMatchingPaths("x.md", [], [{ absolutePath: tempDir }])).toBe("")
+		} finally {
+			await fs.rm(tempDir, { recursive: true, force: true })
+		}
+	})
+})
@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest"
+import { stem } from "../../src/utils/stemmer.js"
+
+describe("stem", () => {
+	it("reduces inflections and derivations to a shared stem", () => {
+		expect(["configure", "configured", "configuring", "configuration"].map((word) => stem(word))).toEqual(["configur", "configur", "configur", "configur"])
+		expect(["caresses", "ponies", "hopping", "relational", "happy"].map((word) => stem(word))).toEqual(["caress", "poni", "hop", "relat", "happi"])
+	})
+
+	it("leaves short words, numbers, and non-English tokens alone", () => {
+		expect(stem("as")).toBe("as")
+		expect(stem("v2")).toBe("v2")
+		expect(stem("認証")).toBe("認証")
+	})
+})
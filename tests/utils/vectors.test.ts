@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest"
+import { buildSearchIndex } from "../../src/utils/search.js"
+import { buildVectorIndex, findSimilarDocuments, parseVectorIndex, serializeVectorIndex } from "../../src/utils/vectors.js"
+
+const documents = [
+	{ path: "deploys.md", content: "# Deploys\n\nEach deploy ships a release. A failed deploy can be reverted to the previous release.\n" },
+	{ path: "history.md", content: "# History\n\nUndo a change to revert it. Undo restores the previous version.\n" },
+	{ path: "cli.md", content: "# CLI\n\nRun the deploy command to ship a release. Use undo to revert the last deploy.\n" },
+	{ path: "rollback.md", content: "# Rollback\n\nRevert production to the previous release.\n" },
+	{ path: "billing.md", content: "# Billing\n\nInvoices are sent monthly. Update the payment card in billing settings.\n" },
+	{ path: "teams.md", content: "# Teams\n\nInvite members and manage team roles and billing settings.\n" },
+	{ path: "tokens.md", content: "# Tokens\n\nCreate API tokens for team members and rotate tokens regularly.\n" }
+]
+
+describe("search vectors", () => {
+	const vectorIndex = buildVectorIndex(buildSearchIndex(documents))
+	const similarity = (query: string, path: string) => findSimilarDocuments(vectorIndex, query).find((document) => document.path === path)?.similarity ?? 0
+
+	it("relates pages that share context with the query but not its words", () => {
+		expect(similarity("how do I undo a deploy", "rollback.md")).toBeGreaterThan(0.5)
+		expect(similarity("how do I undo a deploy", "billing.md")).toBeLessThan(0.1)
+	})
+
+	it("returns nothing for queries without known terms", () => {
+		expect(findSimilarDocuments(vectorIndex, "zzqx")).toEqual([])
+	})
+
+	it("produces the same vectors on every build", () => {
+		expect(serializeVectorIndex(buildVectorIndex(buildSearchIndex(documents)))).toBe(serializeVectorIndex(vectorIndex))
+	})
+
+	it("round-trips through its serialized form", () => {
+		const parsed = parseVectorIndex(serializeVectorIndex(vectorIndex))
+		expect(parsed?.chunks.map((chunk) => chunk.path)).toEqual(vectorIndex.chunks.map((chunk) => chunk.path))
+		expect(parsed && findSimilarDocuments(parsed, "undo deploy").map((document) => document.path)).toEqual(findSimilarDocuments(vectorIndex, "undo deploy").map((document) => document.path))
+		expect(parseVectorIndex(JSON.stringify({ format: 0, terms: {}, chunks: [] }))).toBeNull()
+	})
+})